@@ -1,80 +1,331 @@
 "use server"
 
+import type { SupabaseClient } from "@supabase/supabase-js"
 import { createServerClient } from "@/lib/supabase"
-import { cookies } from "next/headers"
+import { headers } from "next/headers"
+import { createAuthClient, getAuthUser } from "@/lib/auth"
 import { redirect } from "next/navigation"
+import {
+  DEFAULT_ROUND_RULES,
+  HIDDEN_LETTER,
+  HINT_PENALTY,
+  MAX_HINTS,
+  type Move,
+  type MoveKind,
+  type RoundRules,
+  type RoundStatus,
+  type WordClues,
+  countMisses,
+  getLettersOnly,
+  getRoomRules,
+  getRoundStatus,
+  isDeadlinePassed,
+  isGuessableLetter,
+  isValidRoundRules,
+  maskWord,
+  normalizePhrase,
+  sanitizeClues,
+} from "@/lib/hangman"
+import { type MatchFormat, getMatchScores, getMatchWinnerId, isValidMatchFormat } from "@/lib/match"
+import { type Difficulty, isDifficulty, isWordBankCategory, pickRandomWord } from "@/lib/word-bank"
+import { type ProfileRound, getProfileStats } from "@/lib/stats"
+import { LOBBY_SIZE, type OpenRoom, isOpenRoom } from "@/lib/lobby"
+import { type AbsenceRule, isAbsenceRule, isAbsent } from "@/lib/presence"
+import { generateRoomCode, isRoomCode, isRoomUuid, normalizeRoomCode } from "@/lib/room-code"
+import {
+  LEADERBOARD_PAGE_SIZE,
+  MIN_ROUNDS_FOR_RATE,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type LeaderboardPeriod,
+  getPeriodStart,
+} from "@/lib/leaderboard"
+import { type RaceProgress, getRaceOutcome, getRaceProgress, isRaceMode } from "@/lib/race"
+import {
+  MIN_PLAYERS,
+  type RoomPlayer,
+  getGuesserIds,
+  getNextGuesserId,
+  getNextPlayerId,
+  getPlayerRole,
+  isValidMaxPlayers,
+} from "@/lib/players"
+import {
+  type TeamId,
+  TEAMS,
+  TEAM_SIZE_RANGE,
+  areTeamsReady,
+  getNextTeamSetterId,
+  getOtherTeam,
+  getPlayerTeam,
+  getTeamMatchWinner,
+  getTeamMembers,
+  isTeamMode,
+  isValidTeamRoomSize,
+  pickTeamForNewPlayer,
+} from "@/lib/teams"
+
+// Signs the visitor in (as an anonymous guest if they have no session yet) and claims
+// the username for their account. A username belongs to a single account.
+export async function claimUsername(username: string) {
+  const name = username.trim()
+  if (!name) {
+    return { success: false, error: "Username is required." }
+  }
 
-export async function createUser(username: string) {
-  const cookieStore = await cookies()
-  const supabase = createServerClient()
+  const auth = await createAuthClient()
+  let user = (await auth.auth.getUser()).data.user
+  if (!user) {
+    const { data, error } = await auth.auth.signInAnonymously()
+    if (error || !data.user) {
+      console.error("Error starting guest session:", error)
+      return { success: false, error: error?.message ?? "Could not start a guest session." }
+    }
+    user = data.user
+  }
 
-  const { data: existingUser, error: userError } = await supabase
+  const supabase = createServerClient()
+  const { data: profile, error: profileError } = await supabase
     .from("users")
-    .select("id")
-    .eq("username", username)
-    .single()
+    .select("username")
+    .eq("id", user.id)
+    .maybeSingle()
 
-  if (userError && userError.code !== "PGRST116") {
-    // PGRST116 means no rows found
-    console.error("Error checking existing user:", userError)
-    return { success: false, error: userError.message }
+  if (profileError) {
+    console.error("Error checking user profile:", profileError)
+    return { success: false, error: profileError.message }
   }
 
-  let userId: string
-  if (existingUser) {
-    userId = existingUser.id
-  } else {
-    const { data, error } = await supabase.from("users").insert({ username }).select("id").single()
+  if (profile?.username !== name) {
+    // A new name for an existing account renames it
+    const { error } = profile
+      ? await supabase.from("users").update({ username: name }).eq("id", user.id)
+      : await supabase.from("users").insert({ id: user.id, username: name })
 
     if (error) {
-      console.error("Error creating user:", error)
+      // 23505 = unique_violation on the username: another account has claimed it
+      if (error.code === "23505") {
+        return { success: false, error: "That username is already taken." }
+      }
+      console.error("Error claiming username:", error)
       return { success: false, error: error.message }
     }
-    userId = data.id
   }
 
-  // Store user ID in a cookie for session management
-  cookieStore.set("user_id", userId, { httpOnly: true, secure: true, maxAge: 60 * 60 * 24 * 7 }) // 1 week
-  cookieStore.set("username", username, { httpOnly: true, secure: true, maxAge: 60 * 60 * 24 * 7 }) // 1 week
+  return { success: true, userId: user.id }
+}
+
+// The current account, for the home page: its username and whether it is still a guest
+export async function getAccount() {
+  const user = await getAuthUser()
+  if (!user) {
+    return null
+  }
+
+  const supabase = await createAuthClient()
+  const { data: profile } = await supabase.from("users").select("username").eq("id", user.id).maybeSingle()
+
+  return { username: profile?.username ?? null, email: user.email ?? null, isAnonymous: !!user.is_anonymous }
+}
+
+// Sends a magic link. A guest who asks for one keeps their account: the email is
+// linked to it once confirmed, along with their rooms and history.
+export async function sendMagicLink(email: string) {
+  const auth = await createAuthClient()
+  const user = (await auth.auth.getUser()).data.user
+  const origin = (await headers()).get("origin") ?? ""
+  const emailRedirectTo = `${origin}/auth/callback`
+
+  const { error } = user?.is_anonymous
+    ? await auth.auth.updateUser({ email: email.trim() }, { emailRedirectTo })
+    : await auth.auth.signInWithOtp({ email: email.trim(), options: { emailRedirectTo } })
+
+  if (error) {
+    console.error("Error sending magic link:", error)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
+
+export async function signOut() {
+  const auth = await createAuthClient()
+  const { error } = await auth.auth.signOut()
+
+  if (error) {
+    console.error("Error signing out:", error)
+    return { success: false, error: error.message }
+  }
+
+  redirect("/")
+}
+
+export async function createRoom(
+  username: string,
+  options: {
+    matchFormat?: MatchFormat
+    matchTarget?: number | null
+    rules?: RoundRules
+    maxPlayers?: number
+    spectatorsCanChat?: boolean
+    isPublic?: boolean
+    absenceRule?: AbsenceRule
+  } = {},
+) {
+  const {
+    matchFormat = "endless",
+    matchTarget = null,
+    rules = DEFAULT_ROUND_RULES,
+    maxPlayers = MIN_PLAYERS,
+    spectatorsCanChat = true,
+    isPublic = false,
+    absenceRule = "none",
+  } = options
+
+  if (!isValidMatchFormat(matchFormat, matchTarget)) {
+    return { success: false, error: "Invalid match format." }
+  }
+
+  if (!isValidRoundRules(rules)) {
+    return { success: false, error: "Invalid round rules." }
+  }
+
+  if (!isValidMaxPlayers(maxPlayers)) {
+    return { success: false, error: "Invalid number of players." }
+  }
+
+  if (!isAbsenceRule(absenceRule)) {
+    return { success: false, error: "Invalid absence rule." }
+  }
+
+  const teamMode = matchFormat === "team_rounds"
+  if (teamMode && !isValidTeamRoomSize(maxPlayers)) {
+    return { success: false, error: "Team matches need an even number of players, from 4 to 8." }
+  }
+
+  const { success, userId, error: userCreationError } = await claimUsername(username)
+  if (!success || !userId) {
+    return { success: false, error: userCreationError }
+  }
+
+  const { roomId, error } = await insertRoom(
+    userId,
+    rules,
+    {
+      match_format: matchFormat,
+      match_target: matchFormat === "endless" ? null : matchTarget,
+      max_players: maxPlayers,
+      spectators_can_chat: spectatorsCanChat,
+      is_public: isPublic,
+      absence_rule: absenceRule,
+    },
+    teamMode ? "a" : null,
+  )
+
+  if (!roomId) {
+    return { success: false, error }
+  }
 
-  return { success: true, userId }
+  redirect(`/room/${roomId}`)
 }
 
-export async function createRoom(username: string) {
-  const cookieStore = await cookies()
+// Pairs the player with the oldest quick match room waiting for a rival, or opens
+// a new one for the next player who asks for a quick match
+export async function quickMatch(username: string) {
   const supabase = createServerClient()
 
-  const { success, userId, error: userCreationError } = await createUser(username)
-  if (!success) {
+  const { success, userId, error: userCreationError } = await claimUsername(username)
+  if (!success || !userId) {
     return { success: false, error: userCreationError }
   }
 
+  const { data: rooms, error: roomsError } = await supabase
+    .from("rooms")
+    .select("id, host_user_id, is_public, state, player_count, max_players")
+    .eq("quick_match", true)
+    .eq("state", "waiting")
+    .order("created_at", { ascending: true })
+    .limit(LOBBY_SIZE)
+
+  if (roomsError) {
+    console.error("Error looking for a quick match:", roomsError)
+    return { success: false, error: roomsError.message }
+  }
+
+  const ownRoom = rooms.find((room: any) => room.host_user_id === userId && isOpenRoom(room))
+  if (ownRoom) {
+    // Already waiting for a rival: go back to that room instead of opening another
+    redirect(`/room/${ownRoom.id}`)
+  }
+
+  for (const room of rooms.filter((room: any) => room.host_user_id !== userId && isOpenRoom(room))) {
+    // joinRoom redirects on success; if someone else took the seat first, try the next room
+    const result = await joinRoom(room.id, username)
+    if (result.error !== SEAT_TAKEN_ERROR && result.error !== ROOM_FULL_ERROR) {
+      return result
+    }
+  }
+
+  const { roomId, error } = await insertRoom(userId, DEFAULT_ROUND_RULES, {
+    match_format: "endless",
+    match_target: null,
+    max_players: MIN_PLAYERS,
+    is_public: true,
+    quick_match: true,
+  })
+
+  if (!roomId) {
+    return { success: false, error }
+  }
+
+  redirect(`/room/${roomId}`)
+}
+
+// Public rooms waiting for players, newest first, for the home page lobby
+export async function getOpenRooms(): Promise<OpenRoom[]> {
+  const supabase = await createAuthClient()
   const { data, error } = await supabase
     .from("rooms")
-    .insert({ host_user_id: userId, state: "waiting" })
-    .select("id")
-    .single()
+    .select("id, is_public, state, player_count, max_players, match_format, match_target, quick_match, host:host_user_id(username)")
+    .eq("is_public", true)
+    .eq("state", "waiting")
+    .order("created_at", { ascending: false })
+    .limit(LOBBY_SIZE)
 
   if (error) {
-    console.error("Error creating room:", error)
-    return { success: false, error: error.message }
+    console.error("Error fetching open rooms:", error)
+    return []
   }
-
-  redirect(`/room/${data.id}`)
+  return data.filter(isOpenRoom).map((room: any) => ({
+    id: room.id,
+    hostUsername: room.host?.username ?? null,
+    playerCount: room.player_count,
+    maxPlayers: room.max_players,
+    matchFormat: room.match_format,
+    matchTarget: room.match_target,
+    quickMatch: room.quick_match,
+  }))
 }
 
-export async function joinRoom(roomId: string, username: string) {
-  const cookieStore = await cookies()
+// Errors after which a quick match moves on to the next waiting room
+const ROOM_FULL_ERROR = "Room is already full."
+const SEAT_TAKEN_ERROR = "Someone else joined at the same time. Please try again."
+
+export async function joinRoom(roomIdOrCode: string, username: string) {
   const supabase = createServerClient()
+  const roomId = await resolveRoomId(roomIdOrCode.trim())
+  if (!roomId) {
+    return { success: false, error: "Room not found or an error occurred." }
+  }
 
-  const { success, userId, error: userCreationError } = await createUser(username)
+  const { success, userId, error: userCreationError } = await claimUsername(username)
   if (!success) {
     return { success: false, error: userCreationError }
   }
 
   const { data: room, error: roomError } = await supabase
     .from("rooms")
-    .select("id, host_user_id, guest_user_id")
+    .select("id, host_user_id, guest_user_id, max_players, match_format, state")
     .eq("id", roomId)
     .single()
 
@@ -83,34 +334,117 @@ export async function joinRoom(roomId: string, username: string) {
     return { success: false, error: "Room not found or an error occurred." }
   }
 
-  if (room.host_user_id === userId || room.guest_user_id === userId) {
+  if (room.state === "finished") {
+    return { success: false, error: "This room has been closed." }
+  }
+
+  const players = await loadRoomPlayers(roomId)
+
+  if (players.some((player) => player.user_id === userId)) {
     // User is already in the room, redirect directly
     redirect(`/room/${roomId}`)
   }
 
-  if (room.guest_user_id) {
-    return { success: false, error: "Room is already full." }
+  if (players.length >= room.max_players) {
+    return { success: false, error: ROOM_FULL_ERROR }
   }
 
-  // Set guest_user_id and also set initial turn to guest
-  const { error } = await supabase
-    .from("rooms")
-    .update({ guest_user_id: userId, current_turn_user_id: userId })
-    .eq("id", roomId)
+  const { error: playerError } = await supabase.from("room_players").insert({
+    room_id: roomId,
+    user_id: userId,
+    seat: Math.max(-1, ...players.map((player) => player.seat)) + 1,
+    // In team matches newcomers go to the smaller team; they can switch while waiting
+    team: isTeamMode(room) ? pickTeamForNewPlayer(players) : null,
+  })
+
+  if (playerError) {
+    // 23505 = unique_violation on (room_id, seat): someone else joined at the same time
+    if (playerError.code === "23505") {
+      return { success: false, error: SEAT_TAKEN_ERROR }
+    }
+    console.error("Error joining room:", playerError)
+    return { success: false, error: playerError.message }
+  }
 
-  if (error) {
-    console.error("Error joining room:", error)
-    return { success: false, error: error.message }
+  // A spectator who takes a free seat stops being a spectator
+  await supabase.from("room_spectators").delete().eq("room_id", roomId).eq("user_id", userId)
+
+  // The first guest guesses first and the host sets the first word; later players
+  // just join the guessing rotation
+  if (!room.guest_user_id) {
+    const { error } = await supabase
+      .from("rooms")
+      .update({ guest_user_id: userId, current_turn_user_id: userId, word_setter_user_id: room.host_user_id })
+      .eq("id", roomId)
+
+    if (error) {
+      console.error("Error joining room:", error)
+      return { success: false, error: error.message }
+    }
   }
 
   redirect(`/room/${roomId}`)
 }
 
-export async function getRoomDetails(roomId: string) {
+// Watch a room without playing: read-only access to the board, the moves and the chat
+export async function watchRoom(roomIdOrCode: string, username: string) {
+  const supabase = createServerClient()
+  const roomId = await resolveRoomId(roomIdOrCode.trim())
+  if (!roomId) {
+    return { success: false, error: "Room not found or an error occurred." }
+  }
+
+  const { success, userId, error: userCreationError } = await claimUsername(username)
+  if (!success) {
+    return { success: false, error: userCreationError }
+  }
+
+  const { data: room, error: roomError } = await supabase.from("rooms").select("id, state").eq("id", roomId).single()
+
+  if (roomError || !room) {
+    console.error("Error fetching room or room not found:", roomError)
+    return { success: false, error: "Room not found or an error occurred." }
+  }
+
+  if (room.state === "finished") {
+    return { success: false, error: "This room has been closed." }
+  }
+
+  const players = await loadRoomPlayers(roomId)
+  if (!players.some((player) => player.user_id === userId)) {
+    const { error } = await supabase
+      .from("room_spectators")
+      .upsert({ room_id: roomId, user_id: userId }, { onConflict: "room_id,user_id", ignoreDuplicates: true })
+
+    if (error) {
+      console.error("Error watching room:", error)
+      return { success: false, error: error.message }
+    }
+  }
+
+  redirect(`/room/${roomId}`)
+}
+
+// The room UUID behind a short room code, or null if there is no such room.
+// Whoever has the code may join, so this looks past Row Level Security but only returns the id.
+export async function getRoomIdByCode(code: string) {
+  if (!isRoomCode(code)) {
+    return null
+  }
   const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
-  const username = cookieStore.get("username")?.value
+  const { data, error } = await supabase.from("rooms").select("id").eq("code", normalizeRoomCode(code)).maybeSingle()
+
+  if (error) {
+    console.error("Error resolving room code:", error)
+  }
+  return data?.id ?? null
+}
+
+export async function getRoomDetails(roomId: string) {
+  const supabase = await createAuthClient()
+  const currentUser = await getCurrentUser()
+  const userId = currentUser?.id
+  const username = currentUser?.username
 
   if (!userId) {
     return { room: null, currentUser: null, error: "User not logged in." }
@@ -122,39 +456,56 @@ export async function getRoomDetails(roomId: string) {
     *,
     host:host_user_id(username),
     guest:guest_user_id(username),
-    current_turn_user:current_turn_user_id(username)
+    current_turn_user:current_turn_user_id(username),
+    last_round:last_round_id(id, result, misses, duration_seconds)
   `)
     .eq("id", roomId)
-    .single()
+    .maybeSingle()
 
   if (error) {
     console.error("Error fetching room details:", error)
     return { room: null, currentUser: null, error: error.message }
   }
 
-  const isHost = room.host_user_id === userId
-  const isGuest = room.guest_user_id === userId
+  // Row Level Security hides the rooms the user does not play in or watch
+  if (!room) {
+    return { room: null, currentUser: null, error: "You are not part of this room." }
+  }
+
+  const players = await loadRoomPlayers(roomId, supabase)
+  const isSpectator = !players.some((player) => player.user_id === userId)
 
-  if (!isHost && !isGuest) {
+  if (isSpectator && !(await isRoomSpectator(roomId, userId))) {
     return { room: null, currentUser: null, error: "You are not part of this room." }
   }
 
+  // Only the word setter (and their team, in team matches) gets the secret; the
+  // guessers work from masked_word. Nobody gets a word picked from the word bank.
+  let secret: { word: string; hints: string[] } | null = null
+  if (room.masked_word && getPlayerRole(room, userId, players) === "setter") {
+    secret = await getRoomSecret(roomId)
+  }
+
   return {
     room: {
       ...room,
+      word: secret?.word ?? null,
+      hints: secret?.hints ?? [],
+      revealed_letters: getRevealedLetters(room.masked_word, getRoomRules(room)),
       host_username: room.host?.username,
       guest_username: room.guest?.username,
       current_turn_username: room.current_turn_user?.username,
+      players,
+      is_spectator: isSpectator,
     },
     currentUser: { id: userId, username: username || "Guest" },
     error: null,
   }
 }
 
-export async function setWord(roomId: string, word: string) {
+export async function setWord(roomId: string, word: string, clues: WordClues = {}) {
   const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
+  const userId = (await getAuthUser())?.id
 
   if (!userId) {
     return { success: false, error: "User not logged in." }
@@ -162,7 +513,7 @@ export async function setWord(roomId: string, word: string) {
 
   const { data: room, error: roomError } = await supabase
     .from("rooms")
-    .select("host_user_id, guest_user_id, current_turn_user_id")
+    .select("current_turn_user_id, word_setter_user_id, state, match_format, max_misses, timer_mode, timer_seconds, count_enye, count_accents")
     .eq("id", roomId)
     .single()
 
@@ -170,26 +521,50 @@ export async function setWord(roomId: string, word: string) {
     return { success: false, error: "Room not found." }
   }
 
-  // Only the person who is NOT the current guesser can set the word
-  if (room.current_turn_user_id === userId) {
-    return { success: false, error: "You cannot set the word when it's your turn to guess." }
+  if (room.word_setter_user_id !== userId) {
+    return { success: false, error: "It's not your turn to set the word." }
   }
 
-  // Set the word and start playing
-  const { error } = await supabase.from("rooms").update({ word: word.toUpperCase(), state: "playing" }).eq("id", roomId)
+  if (!room.current_turn_user_id) {
+    return { success: false, error: "Wait for another player to join." }
+  }
 
-  if (error) {
-    console.error("Error setting word:", error)
-    return { success: false, error: error.message }
+  if (room.state !== "waiting") {
+    return { success: false, error: "A round is already in progress." }
   }
 
-  return { success: true }
+  if (isTeamMode(room) && !areTeamsReady(await loadRoomPlayers(roomId))) {
+    return { success: false, error: `Each team needs at least ${TEAM_SIZE_RANGE.min} players.` }
+  }
+
+  const rules = getRoomRules(room)
+  const secretWord = word.trim().toUpperCase()
+  if (getLettersOnly(secretWord, rules).length === 0 || secretWord.includes(HIDDEN_LETTER)) {
+    return { success: false, error: "The word must contain at least one letter and no underscores." }
+  }
+
+  const sanitizedClues = sanitizeClues(clues)
+  if (!sanitizedClues) {
+    return { success: false, error: `Use at most ${MAX_HINTS} short hints and a short category.` }
+  }
+
+  const result = await startRound(roomId, secretWord, rules, sanitizedClues, { word_source: "player" })
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  return { success: true, word: secretWord, hints: sanitizedClues.hints }
 }
 
-export async function sendMove(roomId: string, letter: string, correct: boolean) {
+// Starts the round with a word from the built-in bank that nobody in the room gets to see,
+// so every player guesses. With playAsGuesser the setter takes the first turn; with race
+// everyone guesses at the same time on their own board.
+export async function setRandomWord(
+  roomId: string,
+  options: { category?: string | null; difficulty?: Difficulty | null; playAsGuesser?: boolean; race?: boolean } = {},
+) {
   const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
+  const userId = (await getAuthUser())?.id
 
   if (!userId) {
     return { success: false, error: "User not logged in." }
@@ -197,178 +572,896 @@ export async function sendMove(roomId: string, letter: string, correct: boolean)
 
   const { data: room, error: roomError } = await supabase
     .from("rooms")
-    .select("host_user_id, guest_user_id, current_turn_user_id")
+    .select("current_turn_user_id, word_setter_user_id, state, match_format, max_misses, timer_mode, timer_seconds, count_enye, count_accents")
     .eq("id", roomId)
     .single()
 
-  if (roomError || !room || room.current_turn_user_id !== userId) {
-    // Only the designated guesser can make a move
-    return { success: false, error: "It's not your turn." }
+  if (roomError || !room) {
+    return { success: false, error: "Room not found." }
   }
 
-  const { error: moveError } = await supabase
-    .from("moves")
-    .insert({ room_id: roomId, user_id: userId, letter, correct })
-
-  if (moveError) {
-    console.error("Error sending move:", moveError)
-    return { success: false, error: moveError.message }
+  // A hidden word would let the setting team guess its own round
+  if (isTeamMode(room)) {
+    return { success: false, error: "Team matches use words set by the players." }
   }
 
-  // Turn does NOT switch after each letter. It only switches on game reset.
-  return { success: true }
-}
-
-// Función actualizada para incluir message_type
-export async function sendMessage(roomId: string, message: string, messageType: 'text' | 'gif' = 'text') {
-  const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
-  const username = cookieStore.get("username")?.value
-
-  if (!userId || !username) {
-    return { success: false, error: "User not logged in or username not found." }
+  if (room.word_setter_user_id !== userId) {
+    return { success: false, error: "It's not your turn to set the word." }
   }
 
-  const { error } = await supabase
-    .from("messages")
-    .insert({ 
-      room_id: roomId, 
-      user_id: userId, 
-      message, 
-      username,
-      message_type: messageType
-    })
-
-  if (error) {
-    console.error("Error sending message:", error)
-    return { success: false, error: error.message }
+  if (!room.current_turn_user_id) {
+    return { success: false, error: "Wait for another player to join." }
   }
 
-  return { success: true }
-}
+  if (room.state !== "waiting") {
+    return { success: false, error: "A round is already in progress." }
+  }
 
-export async function setTypingIndicator(roomId: string, isTyping: boolean) {
-  const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
-  const username = cookieStore.get("username")?.value
+  if (
+    (options.category && !isWordBankCategory(options.category)) ||
+    (options.difficulty && !isDifficulty(options.difficulty))
+  ) {
+    return { success: false, error: "Unknown word bank category or difficulty." }
+  }
 
-  if (!userId || !username) {
-    return { success: false, error: "User not logged in or username not found." }
+  const pick = pickRandomWord({ category: options.category, difficulty: options.difficulty })
+  if (!pick) {
+    return { success: false, error: "No words match that category and difficulty." }
   }
 
-  if (isTyping) {
-    // Insert or update typing indicator
-    const { error } = await supabase
-      .from("typing_indicators")
-      .upsert({ room_id: roomId, user_id: userId, username, is_typing: true, updated_at: new Date().toISOString() })
+  const rules = getRoomRules(room)
 
-    if (error) {
-      console.error("Error setting typing indicator:", error)
-      return { success: false, error: error.message }
+  if (options.race) {
+    // Every board starts empty; opponents follow each other through race_progress
+    const players = await loadRoomPlayers(roomId)
+    const progress = getRaceProgress(pick.word, [], rules)
+    const { error: progressError } = await supabase
+      .from("race_progress")
+      .insert(players.map((player) => ({ room_id: roomId, user_id: player.user_id, ...progress })))
+
+    if (progressError) {
+      console.error("Error starting race:", progressError)
+      return { success: false, error: progressError.message }
     }
-  } else {
-    // Remove typing indicator
-    const { error } = await supabase.from("typing_indicators").delete().eq("room_id", roomId).eq("user_id", userId)
+  }
 
-    if (error) {
-      console.error("Error removing typing indicator:", error)
-      return { success: false, error: error.message }
+  const result = await startRound(
+    roomId,
+    pick.word,
+    rules,
+    { category: pick.category, hints: [] },
+    {
+      word_source: "bank",
+      ...(options.playAsGuesser ? { current_turn_user_id: userId } : {}),
+      // Races have no turns, so only the round timer applies
+      ...(options.race ? { round_mode: "race", guess_deadline: null } : {}),
+    },
+  )
+  if (!result.success) {
+    if (options.race) {
+      // Without a round in progress the new boards would be left behind
+      await supabase.from("race_progress").delete().eq("room_id", roomId)
     }
+    return { success: false, error: result.error }
   }
 
   return { success: true }
 }
 
-export async function getInitialMessages(roomId: string) {
-  const supabase = createServerClient()
-  const { data, error } = await supabase
-    .from("messages")
-    .select(`
-    id, message, username, created_at, message_type
-  `)
-    .eq("room_id", roomId)
-    .order("created_at", { ascending: true })
+export async function sendMove(roomId: string, letter: string) {
+  const userId = (await getAuthUser())?.id
 
-  if (error) {
-    console.error("Error fetching initial messages:", error)
-    return []
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
   }
-  return data
-}
 
-export async function getInitialMoves(roomId: string) {
-  const supabase = createServerClient()
-  const { data, error } = await supabase
-    .from("moves")
-    .select("*")
-    .eq("room_id", roomId)
-    .order("created_at", { ascending: true })
+  const round = await loadGuesserRound(roomId, userId)
+  if (round.error !== undefined) {
+    return { success: false, error: round.error }
+  }
+  const { room, word, moves, rules } = round
 
-  if (error) {
-    console.error("Error fetching initial moves:", error)
-    return []
+  const guess = letter.trim().toUpperCase()
+  if (!isGuessableLetter(guess, rules)) {
+    return { success: false, error: "Invalid letter." }
   }
-  return data
+
+  if (moves.some((move) => move.letter === guess)) {
+    return { success: false, error: "Letter already guessed." }
+  }
+
+  // Correctness is decided here from the stored word, never by the client
+  const correct = getLettersOnly(word, rules).includes(guess)
+
+  // The turn passes to the next guesser in recordMove
+  return recordMove(room, word, moves, { letter: guess, correct, kind: "letter", misses: correct ? 0 : 1 }, userId)
 }
 
-export async function leaveRoom(roomId: string) {
-  const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
+// Guess the whole word or phrase at once: wins the round on a match,
+// costs the room's solve_penalty in misses otherwise
+export async function solveWord(roomId: string, attempt: string) {
+  const userId = (await getAuthUser())?.id
 
   if (!userId) {
     return { success: false, error: "User not logged in." }
   }
 
-  const { data: room, error: roomError } = await supabase.from("rooms").select("host_user_id").eq("id", roomId).single()
-
-  if (roomError || !room) {
-    return { success: false, error: "Room not found." }
+  const round = await loadGuesserRound(roomId, userId)
+  if (round.error !== undefined) {
+    return { success: false, error: round.error }
   }
+  const { room, word, moves, rules } = round
 
-  if (room.host_user_id === userId) {
-    // Host is leaving, close the room
-    const { error } = await supabase
-      .from("rooms")
-      .update({ state: "finished", guest_user_id: null, word: null, current_turn_user_id: null })
-      .eq("id", roomId)
-    if (error) {
-      console.error("Error closing room:", error)
-      return { success: false, error: error.message }
-    }
-  } else {
-    // Guest is leaving
-    const { error } = await supabase
-      .from("rooms")
-      .update({ guest_user_id: null, current_turn_user_id: room.host_user_id })
-      .eq("id", roomId) // Host gets turn back
-    if (error) {
-      console.error("Error leaving room:", error)
-      return { success: false, error: error.message }
-    }
+  // Same space/punctuation normalization as the letters of the word
+  const normalizedAttempt = normalizePhrase(attempt, rules)
+  if (!normalizedAttempt) {
+    return { success: false, error: "The guess must contain at least one letter." }
   }
 
-  redirect("/") // Redirect both host and guest to home page
+  const correct = normalizedAttempt === normalizePhrase(word, rules)
+
+  return recordMove(
+    room,
+    word,
+    moves,
+    { letter: null, guess: attempt.trim().toUpperCase(), correct, kind: "solve", misses: correct ? 0 : rules.solvePenalty },
+    userId,
+  )
 }
 
-export async function resetGame(roomId: string) {
+// Reveals the next hint to both players at the cost of HINT_PENALTY misses
+export async function revealHint(roomId: string) {
   const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
+  const userId = (await getAuthUser())?.id
 
   if (!userId) {
     return { success: false, error: "User not logged in." }
   }
 
-  const { data: room, error: roomError } = await supabase
-    .from("rooms")
-    .select("host_user_id, guest_user_id, current_turn_user_id")
-    .eq("id", roomId)
-    .single()
+  const round = await loadGuesserRound(roomId, userId)
+  if (round.error !== undefined) {
+    return { success: false, error: round.error }
+  }
+  const { room, word, moves, rules } = round
 
-  if (roomError || !room) {
+  const secret = await getRoomSecret(roomId)
+  const revealedHints: string[] = room.revealed_hints ?? []
+  const nextHint = secret?.hints[revealedHints.length]
+  if (!nextHint) {
+    return { success: false, error: "There are no hints left." }
+  }
+
+  // A hint must never be what loses the round
+  if (countMisses(moves) + HINT_PENALTY >= rules.maxMisses) {
+    return { success: false, error: "Not enough attempts left for a hint." }
+  }
+
+  // The penalty is recorded first; the unique hint_number makes a second click fail here
+  const result = await recordMove(
+    room,
+    word,
+    moves,
+    { letter: null, correct: false, kind: "hint", misses: HINT_PENALTY, hint_number: revealedHints.length + 1 },
+    userId,
+  )
+  if (!result.success) {
+    return result
+  }
+
+  const { data: revealed, error: hintError } = await supabase
+    .from("rooms")
+    .update({ revealed_hints: [...revealedHints, nextHint] })
+    .eq("id", roomId)
+    .eq("revealed_hints", toPostgresArray(revealedHints))
+    .select("id")
+
+  if (hintError || !revealed?.length) {
+    console.error("Error revealing hint:", hintError)
+    return { success: false, error: hintError?.message ?? "That hint is already revealed." }
+  }
+
+  return result
+}
+
+// Called by any player's client when the countdown reaches zero, so a timeout
+// is recorded even if the guesser's tab is closed. The server checks the deadline.
+// Expiry is driven by clients, not by a scheduled job: when nobody has the room open,
+// the timeout is applied as soon as someone opens it again or makes a move.
+export async function expireTurnTimer(roomId: string) {
+  const supabase = createServerClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
+  }
+
+  const { data: room, error: roomError } = await supabase
+    .from("rooms")
+    .select(ROUND_ROOM_COLUMNS)
+    .eq("id", roomId)
+    .single()
+
+  if (roomError || !room) {
+    return { success: false, error: "Room not found." }
+  }
+
+  const players = await loadRoomPlayers(roomId)
+  if (!players.some((player) => player.user_id === userId)) {
+    return { success: false, error: "You are not part of this room." }
+  }
+
+  const word = room.state === "playing" ? (await getRoomSecret(roomId))?.word : null
+  if (!word) {
+    return { success: false, error: "The round is not in progress." }
+  }
+
+  const { data: moves, error: movesError } = await supabase
+    .from("moves")
+    .select(MOVE_COLUMNS)
+    .eq("room_id", roomId)
+
+  if (movesError) {
+    console.error("Error fetching moves:", movesError)
+    return { success: false, error: movesError.message }
+  }
+
+  const expiredTimer = await applyExpiredTimer(room, word, moves)
+  if (!expiredTimer.expired) {
+    return { success: false, error: "The timer has not run out yet." }
+  }
+  if (expiredTimer.error) {
+    return { success: false, error: expiredTimer.error }
+  }
+
+  return { success: true }
+}
+
+// Heartbeat while a player has the room open, so the server can tell when they are gone
+export async function touchPresence(roomId: string) {
+  const supabase = createServerClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
+  }
+
+  const players = await loadRoomPlayers(roomId)
+  if (!players.some((player) => player.user_id === userId)) {
+    return { success: false, error: "You are not part of this room." }
+  }
+
+  const { error } = await supabase
+    .from("room_presence")
+    .upsert({ room_id: roomId, user_id: userId, last_seen_at: new Date().toISOString() })
+
+  if (error) {
+    console.error("Error updating presence:", error)
+    return { success: false, error: error.message }
+  }
+  return { success: true }
+}
+
+// Applies the room's absence rule once a player has missed their heartbeats for the
+// grace period: they lose their turn (or the round, if nobody else guesses) and the
+// host role passes to the next player. Any connected player can ask; like
+// expireTurnTimer, the server checks the stored heartbeat, not the client's view.
+export async function forfeitAbsentPlayer(roomId: string, absentUserId: string) {
+  const supabase = createServerClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
+  }
+
+  const { data: room, error: roomError } = await supabase
+    .from("rooms")
+    .select(`${ROUND_ROOM_COLUMNS}, absence_rule`)
+    .eq("id", roomId)
+    .single()
+
+  if (roomError || !room) {
+    return { success: false, error: "Room not found." }
+  }
+
+  if (room.absence_rule !== "forfeit") {
+    return { success: false, error: "This room has no absence rule." }
+  }
+
+  const players = await loadRoomPlayers(roomId)
+  if (!players.some((player) => player.user_id === userId)) {
+    return { success: false, error: "You are not part of this room." }
+  }
+  if (absentUserId === userId || !players.some((player) => player.user_id === absentUserId)) {
+    return { success: false, error: "That player is not absent from this room." }
+  }
+
+  const { data: presence } = await supabase
+    .from("room_presence")
+    .select("last_seen_at")
+    .eq("room_id", roomId)
+    .eq("user_id", absentUserId)
+    .maybeSingle()
+
+  if (!isAbsent(presence?.last_seen_at ?? null)) {
+    return { success: false, error: "That player is still connected." }
+  }
+
+  let applied = false
+
+  if (room.host_user_id === absentUserId) {
+    const { data: handedOver, error } = await supabase
+      .from("rooms")
+      .update(getSeatHandover(room, players, absentUserId, false))
+      .eq("id", roomId)
+      .eq("host_user_id", absentUserId)
+      .select("id")
+
+    if (error) {
+      console.error("Error handing over the host role:", error)
+      return { success: false, error: error.message }
+    }
+    applied = !!handedOver?.length
+  }
+
+  if (room.state === "playing" && !isRaceMode(room) && room.current_turn_user_id === absentUserId) {
+    const nextGuesserId = getNextGuesserId(players, absentUserId, room.word_setter_user_id, room.word_source)
+
+    if (nextGuesserId && nextGuesserId !== absentUserId) {
+      // The turn passes on; the claim on current_turn_user_id makes repeated calls harmless
+      const { data: passed, error } = await supabase
+        .from("rooms")
+        .update({ current_turn_user_id: nextGuesserId, ...getDeadlines(getRoomRules(room), "guess") })
+        .eq("id", roomId)
+        .eq("current_turn_user_id", absentUserId)
+        .select("id")
+
+      if (error) {
+        console.error("Error passing the turn:", error)
+        return { success: false, error: error.message }
+      }
+      applied = applied || !!passed?.length
+    } else {
+      // Nobody else guesses: the absent guesser forfeits the round
+      const result = await loseRound(room)
+      if (!result.success) {
+        return result
+      }
+      applied = true
+    }
+  }
+
+  if (!applied) {
+    return { success: false, error: "Nothing to forfeit." }
+  }
+  return { success: true }
+}
+
+// Función actualizada para incluir message_type.
+// With toTeam the message goes to the sender's team chat instead of the room chat.
+export async function sendMessage(
+  roomId: string,
+  message: string,
+  messageType: 'text' | 'gif' = 'text',
+  toTeam = false,
+) {
+  // The insert policies check the sender's name and that they may chat
+  const supabase = await createAuthClient()
+  const currentUser = await getCurrentUser()
+  const userId = currentUser?.id
+  const username = currentUser?.username
+
+  if (!userId || !username) {
+    return { success: false, error: "User not logged in or username not found." }
+  }
+
+  if (!(await canChat(roomId, userId))) {
+    return { success: false, error: "You cannot post in this room's chat." }
+  }
+
+  if (toTeam) {
+    const team = getPlayerTeam(await loadRoomPlayers(roomId), userId)
+    if (!team) {
+      return { success: false, error: "You are not in a team." }
+    }
+
+    const { error } = await supabase
+      .from("team_messages")
+      .insert({ room_id: roomId, team, user_id: userId, message, username, message_type: messageType })
+
+    if (error) {
+      console.error("Error sending team message:", error)
+      return { success: false, error: error.message }
+    }
+    return { success: true }
+  }
+
+  const { error } = await supabase
+    .from("messages")
+    .insert({ 
+      room_id: roomId, 
+      user_id: userId, 
+      message, 
+      username,
+      message_type: messageType
+    })
+
+  if (error) {
+    console.error("Error sending message:", error)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
+
+export async function setTypingIndicator(roomId: string, isTyping: boolean) {
+  const supabase = await createAuthClient()
+  const currentUser = await getCurrentUser()
+  const userId = currentUser?.id
+  const username = currentUser?.username
+
+  if (!userId || !username) {
+    return { success: false, error: "User not logged in or username not found." }
+  }
+
+  if (!(await canChat(roomId, userId))) {
+    return { success: false, error: "You cannot post in this room's chat." }
+  }
+
+  if (isTyping) {
+    // Insert or update typing indicator
+    const { error } = await supabase
+      .from("typing_indicators")
+      .upsert({ room_id: roomId, user_id: userId, username, is_typing: true, updated_at: new Date().toISOString() })
+
+    if (error) {
+      console.error("Error setting typing indicator:", error)
+      return { success: false, error: error.message }
+    }
+  } else {
+    // Remove typing indicator
+    const { error } = await supabase.from("typing_indicators").delete().eq("room_id", roomId).eq("user_id", userId)
+
+    if (error) {
+      console.error("Error removing typing indicator:", error)
+      return { success: false, error: error.message }
+    }
+  }
+
+  return { success: true }
+}
+
+export async function getInitialMessages(roomId: string) {
+  const supabase = await createAuthClient()
+  const { data, error } = await supabase
+    .from("messages")
+    .select(`
+    id, message, username, created_at, message_type
+  `)
+    .eq("room_id", roomId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching initial messages:", error)
+    return []
+  }
+  return data
+}
+
+export async function getInitialMoves(roomId: string) {
+  const supabase = await createAuthClient()
+  const { data, error } = await supabase
+    .from("moves")
+    .select("*")
+    .eq("room_id", roomId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching initial moves:", error)
+    return []
+  }
+  return data
+}
+
+export async function getRoomRounds(roomId: string) {
+  const supabase = await createAuthClient()
+  const { data, error } = await supabase
+    .from("rounds")
+    .select("id, word, setter_user_id, guesser_user_id, misses, result, finished_at, duration_seconds, match_number, guessing_team")
+    .eq("room_id", roomId)
+    .order("finished_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching rounds:", error)
+    return []
+  }
+  return data
+}
+
+// PostgREST's default cap on the rows of a single response
+const PROFILE_ROUNDS_PAGE_SIZE = 1000
+
+// Lifetime statistics for a profile page. Profiles are public: get_player_profile and
+// get_player_rounds expose a player's name and rounds from every room, read page by page
+// so the whole history is counted, and only the aggregates are returned.
+export async function getPlayerProfile(username: string) {
+  const supabase = await createAuthClient()
+  const { data: user, error: userError } = await supabase
+    .rpc("get_player_profile", { target_username: username })
+    .maybeSingle<{ id: string; username: string; created_at: string }>()
+
+  if (userError || !user) {
+    if (userError) {
+      console.error("Error fetching profile user:", userError)
+    }
+    return { profile: null, error: "Player not found." }
+  }
+
+  const rounds: ProfileRound[] = []
+  for (let from = 0; ; from += PROFILE_ROUNDS_PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .rpc("get_player_rounds", { target_user_id: user.id })
+      .range(from, from + PROFILE_ROUNDS_PAGE_SIZE - 1)
+
+    if (error) {
+      console.error("Error fetching profile rounds:", error)
+      return { profile: null, error: error.message }
+    }
+    rounds.push(...(page as ProfileRound[]))
+    if (page.length < PROFILE_ROUNDS_PAGE_SIZE) {
+      break
+    }
+  }
+
+  const stats = getProfileStats(rounds, user.id)
+  const opponentIds = stats.favoriteOpponents.map((opponent) => opponent.userId)
+  const { data: opponents } = opponentIds.length
+    ? await supabase.rpc("get_usernames", { user_ids: opponentIds })
+    : { data: [] }
+
+  return {
+    profile: {
+      username: user.username,
+      createdAt: user.created_at,
+      stats,
+      opponentNames: Object.fromEntries((opponents ?? []).map((opponent: any) => [opponent.id, opponent.username])),
+    },
+    error: null,
+  }
+}
+
+export async function getLeaderboardPage(
+  period: LeaderboardPeriod,
+  metric: LeaderboardMetric,
+  page: number,
+  playedWithOnly = false,
+) {
+  // get_leaderboard ranks in SQL; the session tells it who "played with" refers to
+  const supabase = await createAuthClient()
+  const userId = (await getAuthUser())?.id ?? null
+
+  if (playedWithOnly && !userId) {
+    return {
+      entries: [],
+      totalPages: 0,
+      usernames: {} as Record<string, string>,
+      currentUserId: null,
+      error: "User not logged in.",
+    }
+  }
+
+  const from = (page - 1) * LEADERBOARD_PAGE_SIZE
+  const { data: rows, count, error } = await supabase
+    .rpc(
+      "get_leaderboard",
+      {
+        period_start: getPeriodStart(period)?.toISOString() ?? null,
+        metric,
+        played_with_only: playedWithOnly,
+        min_rounds: MIN_ROUNDS_FOR_RATE,
+      },
+      { count: "exact" },
+    )
+    .range(from, from + LEADERBOARD_PAGE_SIZE - 1)
+
+  if (error) {
+    console.error("Error fetching leaderboard:", error)
+    return {
+      entries: [],
+      totalPages: 0,
+      usernames: {} as Record<string, string>,
+      currentUserId: userId,
+      error: error.message,
+    }
+  }
+
+  const entries: LeaderboardEntry[] = (rows ?? []).map((row: any) => ({
+    userId: row.user_id,
+    rank: row.rank,
+    roundsPlayed: row.rounds_played,
+    roundsWon: row.rounds_won,
+    winRate: row.win_rate,
+    averageMisses: row.average_misses,
+  }))
+
+  return {
+    entries,
+    totalPages: Math.ceil((count ?? 0) / LEADERBOARD_PAGE_SIZE),
+    usernames: Object.fromEntries((rows ?? []).map((row: any) => [row.user_id, row.username])) as Record<string, string>,
+    currentUserId: userId,
+    error: null,
+  }
+}
+
+export async function getRoomPlayers(roomId: string): Promise<RoomPlayer[]> {
+  return loadRoomPlayers(roomId, await createAuthClient())
+}
+
+export async function getSpectatorCount(roomId: string) {
+  const supabase = await createAuthClient()
+  const { count, error } = await supabase
+    .from("room_spectators")
+    .select("user_id", { count: "exact", head: true })
+    .eq("room_id", roomId)
+
+  if (error) {
+    console.error("Error counting spectators:", error)
+    return 0
+  }
+  return count ?? 0
+}
+
+export async function getRaceProgressList(roomId: string): Promise<RaceProgress[]> {
+  return loadRaceProgress(roomId, await createAuthClient())
+}
+
+// The current player's own race board, to restore it after a reload
+export async function getRaceBoard(roomId: string) {
+  const supabase = await createAuthClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { maskedWord: null, moves: [] }
+  }
+
+  // The secret is read past Row Level Security, so only the room's players get a board
+  const players = await loadRoomPlayers(roomId, supabase)
+  if (!players.some((player) => player.user_id === userId)) {
+    return { maskedWord: null, moves: [] }
+  }
+
+  const word = (await getRoomSecret(roomId))?.word
+  const { data: room } = await supabase
+    .from("rooms")
+    .select("count_enye, count_accents, max_misses, timer_mode, timer_seconds")
+    .eq("id", roomId)
+    .single()
+
+  const { data: moves, error } = await supabase
+    .from("race_moves")
+    .select(MOVE_COLUMNS)
+    .eq("room_id", roomId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true })
+
+  if (error || !word || !room) {
+    if (error) {
+      console.error("Error fetching race board:", error)
+    }
+    return { maskedWord: null, moves: [] }
+  }
+
+  const guessedLetters = moves.flatMap((move: Move) => (move.correct && move.letter ? [move.letter] : []))
+  return { maskedWord: maskWord(word, guessedLetters, getRoomRules(room)), moves }
+}
+
+// Moves the current player to the other team while the room waits for a word
+export async function setPlayerTeam(roomId: string, team: TeamId) {
+  const supabase = createServerClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
+  }
+
+  if (!TEAMS.includes(team)) {
+    return { success: false, error: "Unknown team." }
+  }
+
+  const { data: room, error: roomError } = await supabase
+    .from("rooms")
+    .select("state, match_format, match_number, max_players, word_setter_user_id, current_turn_user_id")
+    .eq("id", roomId)
+    .single()
+
+  if (roomError || !room) {
+    return { success: false, error: "Room not found." }
+  }
+
+  if (!isTeamMode(room)) {
+    return { success: false, error: "This room does not play in teams." }
+  }
+
+  if (room.state !== "waiting") {
+    return { success: false, error: "Teams can only change before the match starts." }
+  }
+
+  // Once a round of the match is played, a switch would change the team scores and the setter rotation
+  const { count: playedRounds, error: roundsError } = await supabase
+    .from("rounds")
+    .select("id", { count: "exact", head: true })
+    .eq("room_id", roomId)
+    .eq("match_number", room.match_number)
+
+  if (roundsError) {
+    console.error("Error checking match rounds:", roundsError)
+    return { success: false, error: roundsError.message }
+  }
+  if (playedRounds) {
+    return { success: false, error: "Teams can only change before the match starts." }
+  }
+
+  const players = await loadRoomPlayers(roomId)
+  if (!players.some((player) => player.user_id === userId)) {
+    return { success: false, error: "You are not part of this room." }
+  }
+
+  if (getTeamMembers(players, team).length >= room.max_players / 2) {
+    return { success: false, error: "That team is full." }
+  }
+
+  const { error } = await supabase.from("room_players").update({ team }).eq("room_id", roomId).eq("user_id", userId)
+
+  if (error) {
+    console.error("Error changing team:", error)
+    return { success: false, error: error.message }
+  }
+
+  // The other team guesses, so the first guesser may change with the teams
+  if (room.current_turn_user_id) {
+    const updatedPlayers = players.map((player) => (player.user_id === userId ? { ...player, team } : player))
+    const { error: turnError } = await supabase
+      .from("rooms")
+      .update({
+        current_turn_user_id: getNextGuesserId(updatedPlayers, room.word_setter_user_id, room.word_setter_user_id),
+      })
+      .eq("id", roomId)
+
+    if (turnError) {
+      console.error("Error updating turn after team change:", turnError)
+      return { success: false, error: turnError.message }
+    }
+  }
+
+  return { success: true }
+}
+
+export async function leaveRoom(roomId: string) {
+  const supabase = createServerClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
+  }
+
+  const { data: room, error: roomError } = await supabase
+    .from("rooms")
+    .select(ROUND_ROOM_COLUMNS)
+    .eq("id", roomId)
+    .single()
+
+  if (roomError || !room) {
+    return { success: false, error: "Room not found." }
+  }
+
+  if (await isRoomSpectator(roomId, userId)) {
+    // Spectators just stop watching; the game is not affected
+    const { error } = await supabase.from("room_spectators").delete().eq("room_id", roomId).eq("user_id", userId)
+    if (error) {
+      console.error("Error leaving room:", error)
+      return { success: false, error: error.message }
+    }
+    redirect("/")
+  }
+
+  const players = await loadRoomPlayers(roomId)
+  if (!players.some((player) => player.user_id === userId)) {
+    return { success: false, error: "You are not part of this room." }
+  }
+  const remaining = players.filter((player) => player.user_id !== userId)
+
+  if (remaining.length === 0) {
+    // The last player is leaving, close the room
+    const { error } = await supabase
+      .from("rooms")
+      .update({
+        state: "finished",
+        closed_reason: "host_left",
+        guest_user_id: null,
+        masked_word: null,
+        current_turn_user_id: null,
+      })
+      .eq("id", roomId)
+    if (error) {
+      console.error("Error closing room:", error)
+      return { success: false, error: error.message }
+    }
+    await supabase.from("room_secrets").delete().eq("room_id", roomId)
+  } else {
+    // A leaving host hands the room to the next player in seat order, so the match,
+    // the chat and the scoreboard carry on and the same link still works
+    const seats = getSeatHandover(room, players, userId, true)
+
+    const { error: leaveError } = await supabase.from("room_players").delete().eq("room_id", roomId).eq("user_id", userId)
+    if (leaveError) {
+      console.error("Error leaving room:", leaveError)
+      return { success: false, error: leaveError.message }
+    }
+    // A race in progress goes on without their board
+    await supabase.from("race_progress").delete().eq("room_id", roomId).eq("user_id", userId)
+    await supabase.from("room_presence").delete().eq("room_id", roomId).eq("user_id", userId)
+
+    if (remaining.length < MIN_PLAYERS) {
+      // The host is left alone: back to waiting for someone to join
+      const result = await startNextRound(roomId, remaining, seats.host_user_id, seats)
+      if (!result.success) {
+        return result
+      }
+    } else {
+      const roomUpdates: Record<string, unknown> =
+        seats.host_user_id !== room.host_user_id || seats.guest_user_id !== room.guest_user_id ? { ...seats } : {}
+      if (room.state === "waiting" && room.word_setter_user_id === userId) {
+        // In team matches a teammate takes over the word
+        const team = isTeamMode(room) ? getPlayerTeam(players, userId) : null
+        const nextSetterId =
+          (team && getTeamMembers(remaining, team)[0]?.user_id) || getNextPlayerId(players, userId)
+        roomUpdates.word_setter_user_id = nextSetterId
+        roomUpdates.current_turn_user_id = getNextGuesserId(remaining, nextSetterId, nextSetterId)
+      } else if (room.current_turn_user_id === userId) {
+        // Pass the turn on; a round in progress keeps going without them
+        const nextGuesserId =
+          room.state === "playing"
+            ? getNextGuesserId(players, userId, room.word_setter_user_id, room.word_source, userId)
+            : getNextGuesserId(remaining, room.word_setter_user_id, room.word_setter_user_id)
+
+        if (nextGuesserId || room.state !== "playing") {
+          roomUpdates.current_turn_user_id = nextGuesserId
+        } else {
+          // Nobody is left to guess (the last guesser of a team): the round is lost
+          const result = await loseRound(room)
+          if (!result.success) {
+            return result
+          }
+        }
+      }
+
+      if (Object.keys(roomUpdates).length > 0) {
+        const { error } = await supabase.from("rooms").update(roomUpdates).eq("id", roomId)
+        if (error) {
+          console.error("Error leaving room:", error)
+          return { success: false, error: error.message }
+        }
+      }
+    }
+  }
+
+  redirect("/") // Redirect every player to home page
+}
+
+export async function resetGame(roomId: string) {
+  const supabase = createServerClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
+  }
+
+  const { data: room, error: roomError } = await supabase
+    .from("rooms")
+    .select("host_user_id, current_turn_user_id, word_setter_user_id, state, match_format, match_winner_user_id, match_winner_team")
+    .eq("id", roomId)
+    .single()
+
+  if (roomError || !room) {
     console.error("Error fetching room for reset:", roomError)
     return { success: false, error: "Room not found." }
   }
@@ -378,39 +1471,73 @@ export async function resetGame(roomId: string) {
     return { success: false, error: "You are not authorized to reset the game." }
   }
 
-  // Determine the next guesser (flip roles)
-  const nextGuesserId = room.current_turn_user_id === room.host_user_id ? room.guest_user_id : room.host_user_id
+  // A round in progress has to be played out (or lost), never thrown away
+  if (room.state !== "won" && room.state !== "lost") {
+    return { success: false, error: "The round is not over yet." }
+  }
 
-  // Reset room state
-  const { error: updateError } = await supabase
+  if (room.match_winner_user_id || room.match_winner_team) {
+    return { success: false, error: "The match is over. Start a rematch to keep playing." }
+  }
+
+  // The next player in seat order sets the word (with two players, roles flip);
+  // in team matches the word goes to the other team
+  const players = await loadRoomPlayers(roomId)
+  const nextSetterId = isTeamMode(room)
+    ? getNextTeamSetterId(players, room.word_setter_user_id)
+    : getNextPlayerId(players, room.word_setter_user_id ?? room.host_user_id)
+
+  return startNextRound(roomId, players, nextSetterId)
+}
+
+export async function startRematch(roomId: string) {
+  const supabase = createServerClient()
+  const userId = (await getAuthUser())?.id
+
+  if (!userId) {
+    return { success: false, error: "User not logged in." }
+  }
+
+  const { data: room, error: roomError } = await supabase
     .from("rooms")
-    .update({
-      word: null,
-      state: "waiting", // Back to waiting for new word
-      current_turn_user_id: nextGuesserId, // Assign next guesser
-    })
+    .select("match_number, match_format, match_winner_user_id, match_winner_team")
     .eq("id", roomId)
+    .single()
 
-  if (updateError) {
-    console.error("Error resetting room:", updateError)
-    return { success: false, error: updateError.message }
+  if (roomError || !room) {
+    console.error("Error fetching room for rematch:", roomError)
+    return { success: false, error: "Room not found." }
   }
 
-  // Delete old moves for a clean slate for the new round
-  const { error: deleteMovesError } = await supabase.from("moves").delete().eq("room_id", roomId)
+  const players = await loadRoomPlayers(roomId)
+  if (!players.some((player) => player.user_id === userId)) {
+    return { success: false, error: "You are not part of this room." }
+  }
 
-  if (deleteMovesError) {
-    console.error("Error deleting old moves:", deleteMovesError)
-    // Don't fail the whole reset if moves deletion fails, it's optional
+  if (!room.match_winner_user_id && !room.match_winner_team) {
+    return { success: false, error: "The current match is still in progress." }
   }
 
-  return { success: true }
+  // The winner of the match sets the first word, so the others guess first in the rematch.
+  // Team rematches start over from the first player of the red team.
+  const winnerIsPresent = players.some((player) => player.user_id === room.match_winner_user_id)
+  const nextSetterId = isTeamMode(room)
+    ? getNextTeamSetterId(players, null)
+    : winnerIsPresent
+      ? room.match_winner_user_id
+      : getNextPlayerId(players, room.match_winner_user_id)
+
+  // Rounds of the previous match stay in history under their own match_number
+  return startNextRound(roomId, players, nextSetterId, {
+    match_number: room.match_number + 1,
+    match_winner_user_id: null,
+    match_winner_team: null,
+  })
 }
 
 export async function switchWordSetter(roomId: string) {
   const supabase = createServerClient()
-  const cookieStore = await cookies()
-  const userId = cookieStore.get("user_id")?.value
+  const userId = (await getAuthUser())?.id
 
   if (!userId) {
     return { success: false, error: "User not logged in." }
@@ -418,7 +1545,7 @@ export async function switchWordSetter(roomId: string) {
 
   const { data: room, error: roomError } = await supabase
     .from("rooms")
-    .select("host_user_id, guest_user_id, current_turn_user_id, state")
+    .select("host_user_id, guest_user_id, word_setter_user_id, state, match_format")
     .eq("id", roomId)
     .single()
 
@@ -427,7 +1554,7 @@ export async function switchWordSetter(roomId: string) {
     return { success: false, error: "Room not found." }
   }
 
-  // Only allow switching when in waiting state and both players are present
+  // Only allow switching when in waiting state and at least two players are present
   if (room.state !== "waiting" || !room.guest_user_id) {
     return { success: false, error: "Cannot switch roles at this time." }
   }
@@ -437,12 +1564,16 @@ export async function switchWordSetter(roomId: string) {
     return { success: false, error: "Only the host can switch roles." }
   }
 
-  // Switch the current_turn_user_id (who will be the guesser)
-  const newGuesserId = room.current_turn_user_id === room.host_user_id ? room.guest_user_id : room.host_user_id
+  // Hand the word to the next player in seat order (or the other team); the first
+  // guesser after them starts
+  const players = await loadRoomPlayers(roomId)
+  const newSetterId = isTeamMode(room)
+    ? getNextTeamSetterId(players, room.word_setter_user_id)
+    : getNextPlayerId(players, room.word_setter_user_id)
 
   const { error: updateError } = await supabase
     .from("rooms")
-    .update({ current_turn_user_id: newGuesserId })
+    .update({ word_setter_user_id: newSetterId, current_turn_user_id: getNextGuesserId(players, newSetterId, newSetterId) })
     .eq("id", roomId)
 
   if (updateError) {
@@ -451,4 +1582,624 @@ export async function switchWordSetter(roomId: string) {
   }
 
   return { success: true }
-}
\ No newline at end of file
+}
+
+async function getRoomSecret(roomId: string) {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from("room_secrets")
+    .select("word, hints")
+    .eq("room_id", roomId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching secret word:", error)
+    return null
+  }
+  return data ? { word: data.word as string, hints: (data.hints ?? []) as string[] } : null
+}
+
+// Same as getRoomPlayers, but by default with the service client, for checks made
+// before the caller joins the room
+async function loadRoomPlayers(roomId: string, supabase: SupabaseClient = createServerClient()): Promise<RoomPlayer[]> {
+  const { data, error } = await supabase
+    .from("room_players")
+    .select("user_id, seat, team, user:user_id(username)")
+    .eq("room_id", roomId)
+    .order("seat", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching room players:", error)
+    return []
+  }
+  return data.map((player: any) => ({
+    user_id: player.user_id,
+    seat: player.seat,
+    team: player.team,
+    username: player.user?.username,
+  }))
+}
+
+async function loadRaceProgress(roomId: string, supabase: SupabaseClient = createServerClient()): Promise<RaceProgress[]> {
+  const { data, error } = await supabase
+    .from("race_progress")
+    .select("user_id, revealed_letters, total_letters, misses, status")
+    .eq("room_id", roomId)
+
+  if (error) {
+    console.error("Error fetching race progress:", error)
+    return []
+  }
+  return data
+}
+
+const ROOM_CODE_ATTEMPTS = 5
+
+// Opens a waiting room with the host in the first seat
+async function insertRoom(
+  userId: string,
+  rules: RoundRules,
+  room: Record<string, unknown>,
+  hostTeam: TeamId | null = null,
+): Promise<{ roomId: string | null; error?: string }> {
+  const supabase = createServerClient()
+  let data: { id: string } | null = null
+  for (let attempt = 1; !data; attempt++) {
+    const { data: inserted, error } = await supabase
+      .from("rooms")
+      .insert({
+        host_user_id: userId,
+        code: generateRoomCode(),
+        state: "waiting",
+        max_misses: rules.maxMisses,
+        timer_mode: rules.timerMode,
+        timer_seconds: rules.timerMode === "none" ? null : rules.timerSeconds,
+        count_enye: rules.countEnye,
+        count_accents: rules.countAccents,
+        solve_penalty: rules.solvePenalty,
+        ...room,
+      })
+      .select("id")
+      .single()
+
+    // 23505 = unique_violation on the code: draw another one
+    if (error && (error.code !== "23505" || attempt >= ROOM_CODE_ATTEMPTS)) {
+      console.error("Error creating room:", error)
+      return { roomId: null, error: error.message }
+    }
+    data = inserted
+  }
+
+  const { error: playerError } = await supabase
+    .from("room_players")
+    .insert({ room_id: data.id, user_id: userId, seat: 0, team: hostTeam })
+
+  if (playerError) {
+    console.error("Error adding host to room:", playerError)
+    return { roomId: null, error: playerError.message }
+  }
+  return { roomId: data.id }
+}
+
+// Rooms can be addressed by their UUID or by their short code
+async function resolveRoomId(roomIdOrCode: string) {
+  if (isRoomUuid(roomIdOrCode)) {
+    return roomIdOrCode
+  }
+  return getRoomIdByCode(roomIdOrCode)
+}
+
+// Array literal for comparing a text[] column with .eq(), e.g. {"a","b c"}
+function toPostgresArray(values: string[]) {
+  return `{${values.map((value) => JSON.stringify(value)).join(",")}}`
+}
+
+function getRevealedLetters(maskedWord: string | null, rules: RoundRules) {
+  return maskedWord ? [...new Set(getLettersOnly(maskedWord, rules))] : []
+}
+
+async function isRoomSpectator(roomId: string, userId: string) {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from("room_spectators")
+    .select("user_id")
+    .eq("room_id", roomId)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error checking spectator:", error)
+    return false
+  }
+  return !!data
+}
+
+// Players can always chat; spectators only if the room allows it
+async function canChat(roomId: string, userId: string) {
+  const players = await loadRoomPlayers(roomId)
+  if (players.some((player) => player.user_id === userId)) {
+    return true
+  }
+
+  const supabase = createServerClient()
+  const { data: room } = await supabase.from("rooms").select("spectators_can_chat").eq("id", roomId).single()
+  return !!room?.spectators_can_chat && (await isRoomSpectator(roomId, userId))
+}
+
+// Stores the secret word and publishes its masked pattern to start playing
+async function startRound(
+  roomId: string,
+  secretWord: string,
+  rules: RoundRules,
+  clues: { category: string | null; hints: string[] },
+  roomUpdates: Record<string, unknown> = {},
+) {
+  const supabase = createServerClient()
+
+  // The secret (and its hints) lives in room_secrets, which is not published to Realtime
+  const { error: secretError } = await supabase
+    .from("room_secrets")
+    .upsert({ room_id: roomId, word: secretWord, hints: clues.hints })
+
+  if (secretError) {
+    console.error("Error storing secret word:", secretError)
+    return { success: false, error: secretError.message }
+  }
+
+  const { error } = await supabase
+    .from("rooms")
+    .update({
+      masked_word: maskWord(secretWord, [], rules),
+      category: clues.category,
+      hint_count: clues.hints.length,
+      revealed_hints: [],
+      state: "playing",
+      round_started_at: new Date().toISOString(),
+      ...getDeadlines(rules, "round"),
+      ...roomUpdates,
+    })
+    .eq("id", roomId)
+
+  if (error) {
+    console.error("Error setting word:", error)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
+
+// Columns needed to play a move and, if it ends the round, record the outcome
+const ROUND_ROOM_COLUMNS =
+  "id, host_user_id, guest_user_id, current_turn_user_id, word_setter_user_id, state, round_started_at, round_deadline, guess_deadline, max_misses, timer_mode, timer_seconds, count_enye, count_accents, solve_penalty, category, revealed_hints, word_source, round_mode, match_format, match_target, match_number"
+
+// Deadlines to store when a round starts ("round") or after each move ("guess")
+function getDeadlines(rules: RoundRules, event: "round" | "guess") {
+  if (rules.timerMode === "none" || !rules.timerSeconds) {
+    return {}
+  }
+  const deadline = new Date(Date.now() + rules.timerSeconds * 1000).toISOString()
+  if (rules.timerMode === "round") {
+    return event === "round" ? { round_deadline: deadline } : {}
+  }
+  return { guess_deadline: deadline }
+}
+
+const MOVE_COLUMNS = "letter, correct, kind, misses"
+
+// Loads the guesser's round in progress for a move, applying any timer that ran out first.
+// In a race every player guesses on their own board, so the moves are only theirs.
+async function loadGuesserRound(
+  roomId: string,
+  userId: string,
+): Promise<{ room: any; word: string; moves: Move[]; rules: RoundRules; error?: undefined } | { error: string }> {
+  const supabase = createServerClient()
+
+  const { data: room, error: roomError } = await supabase
+    .from("rooms")
+    .select(ROUND_ROOM_COLUMNS)
+    .eq("id", roomId)
+    .single()
+
+  const raceMode = isRaceMode(room)
+  if (roomError || !room || (!raceMode && room.current_turn_user_id !== userId)) {
+    // Only the designated guesser can make a move
+    return { error: "It's not your turn." }
+  }
+
+  if (raceMode && !(await loadRoomPlayers(roomId)).some((player) => player.user_id === userId)) {
+    return { error: "You are not part of this room." }
+  }
+
+  const word = room.state === "playing" ? (await getRoomSecret(roomId))?.word : null
+  if (!word) {
+    return { error: "The round is not in progress." }
+  }
+
+  const { data: moves, error: movesError } = raceMode
+    ? await supabase.from("race_moves").select(MOVE_COLUMNS).eq("room_id", roomId).eq("user_id", userId)
+    : await supabase.from("moves").select(MOVE_COLUMNS).eq("room_id", roomId)
+
+  if (movesError) {
+    console.error("Error fetching moves:", movesError)
+    return { error: movesError.message }
+  }
+
+  const rules = getRoomRules(room)
+  if (getRoundStatus(word, moves, rules) !== "playing") {
+    return { error: "The round is already over." }
+  }
+
+  // Timers are enforced here as well, whatever the client's countdown shows.
+  // A late move is replaced by the miss (or lost round) the guesser already earned.
+  const expiredTimer = await applyExpiredTimer(room, word, moves)
+  if (expiredTimer.expired) {
+    return { error: expiredTimer.error ?? "Time is up." }
+  }
+
+  return { room, word, moves, rules }
+}
+
+// Stores a move made by the guesser and advances the round accordingly
+async function recordMove(
+  room: any,
+  word: string,
+  moves: Move[],
+  move: Move & { kind: MoveKind; misses: number; guess?: string; hint_number?: number },
+  userId: string,
+) {
+  if (isRaceMode(room)) {
+    return recordRaceMove(room, word, moves, move, userId)
+  }
+
+  const supabase = createServerClient()
+  const rules = getRoomRules(room)
+
+  const { error: moveError } = await supabase.from("moves").insert({ room_id: room.id, user_id: userId, ...move })
+
+  if (moveError) {
+    // 23505 = unique_violation on (room_id, letter) or (room_id, hint_number): a concurrent duplicate
+    if (moveError.code === "23505") {
+      return { success: false, error: move.kind === "hint" ? "That hint is already revealed." : "Letter already guessed." }
+    }
+    console.error("Error sending move:", moveError)
+    return { success: false, error: moveError.message }
+  }
+
+  const updatedMoves = [...moves, move]
+  const status = getRoundStatus(word, updatedMoves, rules)
+
+  if (status !== "playing") {
+    const result = await finishRound(room, word, updatedMoves, status)
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+    return { success: true, correct: move.correct, maskedWord: word, status }
+  }
+
+  const guessedLetters = updatedMoves.flatMap((previous) => (previous.letter ? [previous.letter] : []))
+  const maskedWord = maskWord(word, guessedLetters, rules)
+
+  // Guessers take turns after every letter, timeout or failed solve; a hint keeps the turn
+  const players = move.kind === "hint" ? [] : await loadRoomPlayers(room.id)
+  const nextGuesserId =
+    getNextGuesserId(players, room.current_turn_user_id, room.word_setter_user_id, room.word_source) ??
+    room.current_turn_user_id
+
+  const { error: maskError } = await supabase
+    .from("rooms")
+    .update({ masked_word: maskedWord, current_turn_user_id: nextGuesserId, ...getDeadlines(rules, "guess") })
+    .eq("id", room.id)
+
+  if (maskError) {
+    console.error("Error updating masked word:", maskError)
+    return { success: false, error: maskError.message }
+  }
+
+  return { success: true, correct: move.correct, maskedWord, status }
+}
+
+// Stores a move on the player's own race board. Opponents only get the progress;
+// the round ends when someone solves their board or every board is lost.
+async function recordRaceMove(
+  room: any,
+  word: string,
+  moves: Move[],
+  move: Move & { kind: MoveKind; misses: number; guess?: string },
+  userId: string,
+) {
+  const supabase = createServerClient()
+  const rules = getRoomRules(room)
+
+  const { error: moveError } = await supabase.from("race_moves").insert({ room_id: room.id, user_id: userId, ...move })
+
+  if (moveError) {
+    // 23505 = unique_violation on (room_id, user_id, letter): a duplicate guess on this board
+    if (moveError.code === "23505") {
+      return { success: false, error: "Letter already guessed." }
+    }
+    console.error("Error sending race move:", moveError)
+    return { success: false, error: moveError.message }
+  }
+
+  const updatedMoves = [...moves, move]
+  const progress = getRaceProgress(word, updatedMoves, rules)
+
+  const { error: progressError } = await supabase
+    .from("race_progress")
+    .update({ ...progress, updated_at: new Date().toISOString() })
+    .eq("room_id", room.id)
+    .eq("user_id", userId)
+
+  if (progressError) {
+    console.error("Error updating race progress:", progressError)
+    return { success: false, error: progressError.message }
+  }
+
+  const outcome = getRaceOutcome(await loadRaceProgress(room.id))
+  if (outcome) {
+    const result = await finishRound(room, word, updatedMoves, outcome.status, outcome.winnerId)
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+  }
+
+  // A lost board keeps the word hidden until the race is over
+  const guessedLetters = updatedMoves.flatMap((previous) => (previous.correct && previous.letter ? [previous.letter] : []))
+  return {
+    success: true,
+    correct: move.correct,
+    maskedWord: progress.status === "won" || outcome ? word : maskWord(word, guessedLetters, rules),
+    status: progress.status,
+  }
+}
+
+// Applies whichever timer has run out: the round is lost, or the guesser gets a miss.
+// The deadline is cleared with a conditional update first, so when both clients
+// report the same timeout only one of them applies it.
+async function applyExpiredTimer(room: any, word: string, moves: Move[]): Promise<{ expired: boolean; error?: string }> {
+  const supabase = createServerClient()
+  const column = isDeadlinePassed(room.round_deadline)
+    ? "round_deadline"
+    : isDeadlinePassed(room.guess_deadline)
+      ? "guess_deadline"
+      : null
+
+  if (!column) {
+    return { expired: false }
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("rooms")
+    .update({ [column]: null })
+    .eq("id", room.id)
+    .eq(column, room[column])
+    .select("id")
+
+  if (claimError) {
+    console.error("Error claiming expired timer:", claimError)
+    return { expired: true, error: claimError.message }
+  }
+
+  if (!claimed?.length) {
+    // Someone else already applied this timeout
+    return { expired: true }
+  }
+
+  const result =
+    column === "round_deadline"
+      ? await finishRound(room, word, moves, "lost")
+      : await recordMove(room, word, moves, { letter: null, correct: false, kind: "timeout", misses: 1 }, room.current_turn_user_id)
+
+  return { expired: true, error: result.success ? undefined : result.error }
+}
+
+// Records the outcome of the round and moves the room to its terminal state.
+// The round goes to guesserId, by default whoever made the last move.
+// The room is claimed with a conditional update first, so when two callers finish the
+// same round at once (two racers, a timer and a last letter) only one records it.
+async function finishRound(
+  room: any,
+  word: string,
+  moves: Move[],
+  status: Exclude<RoundStatus, "playing">,
+  guesserId: string | null = isRaceMode(room) ? null : room.current_turn_user_id,
+) {
+  const supabase = createServerClient()
+  const finishedAt = new Date()
+
+  // The full word is only disclosed once the round is over
+  const { data: claimed, error: finishError } = await supabase
+    .from("rooms")
+    .update({
+      masked_word: word,
+      state: status,
+      round_deadline: null,
+      guess_deadline: null,
+    })
+    .eq("id", room.id)
+    .eq("state", "playing")
+    .select("id")
+
+  if (finishError) {
+    console.error("Error finishing round:", finishError)
+    return { success: false, error: finishError.message }
+  }
+
+  if (!claimed?.length) {
+    // Someone else already finished this round
+    return { success: true }
+  }
+
+  const secret = await getRoomSecret(room.id)
+  const players = await loadRoomPlayers(room.id)
+  const setterTeam = isTeamMode(room) ? getPlayerTeam(players, room.word_setter_user_id) : null
+
+  const { data: round, error: roundError } = await supabase
+    .from("rounds")
+    .insert({
+      room_id: room.id,
+      word,
+      // Nobody set a word picked from the word bank
+      setter_user_id: room.word_source === "bank" ? null : room.word_setter_user_id,
+      guesser_user_id: guesserId,
+      misses: countMisses(moves),
+      result: status,
+      started_at: room.round_started_at,
+      finished_at: finishedAt.toISOString(),
+      duration_seconds: room.round_started_at
+        ? Math.round((finishedAt.getTime() - new Date(room.round_started_at).getTime()) / 1000)
+        : null,
+      match_number: room.match_number,
+      category: room.category,
+      hints: secret?.hints ?? [],
+      hints_used: room.revealed_hints?.length ?? 0,
+      guessing_team: setterTeam ? getOtherTeam(setterTeam) : null,
+      round_mode: room.round_mode,
+      // With several guessers only the last one is stored, so stats leave the round out
+      guesser_count: getGuesserIds(players, room.word_setter_user_id, room.word_source).length,
+    })
+    .select("id")
+    .single()
+
+  if (roundError) {
+    console.error("Error recording round:", roundError)
+    return { success: false, error: roundError.message }
+  }
+
+  const matchWinner = await getMatchWinner(room)
+
+  const { error: roundLinkError } = await supabase
+    .from("rooms")
+    .update({ last_round_id: round.id, ...matchWinner })
+    .eq("id", room.id)
+
+  if (roundLinkError) {
+    console.error("Error finishing round:", roundLinkError)
+    return { success: false, error: roundLinkError.message }
+  }
+
+  return { success: true }
+}
+
+// Ends the round in progress as lost for the room's current guesser,
+// when nobody else is left to take the turn
+async function loseRound(room: any) {
+  const supabase = createServerClient()
+  const word = (await getRoomSecret(room.id))?.word
+  if (!word) {
+    return { success: false, error: "The round is not in progress." }
+  }
+
+  const { data: moves, error } = await supabase.from("moves").select(MOVE_COLUMNS).eq("room_id", room.id)
+  if (error) {
+    console.error("Error fetching moves:", error)
+    return { success: false, error: error.message }
+  }
+  return finishRound(room, word, moves, "lost")
+}
+
+// Host and guest slots once userId gives them up: a host who leaves (or is absent) hands
+// the room to the next player in seat order, and the guest slot goes to the player after
+// the new host when its holder leaves or becomes host; with two players they swap.
+// A leaving userId gets neither slot.
+function getSeatHandover(room: any, players: RoomPlayer[], userId: string, leaving: boolean) {
+  const hostUserId = room.host_user_id === userId ? getNextPlayerId(players, userId) : room.host_user_id
+  const guestUserId =
+    room.guest_user_id === hostUserId || (leaving && room.guest_user_id === userId)
+      ? getNextPlayerId(players, hostUserId, leaving ? userId : null)
+      : room.guest_user_id
+  return { host_user_id: hostUserId as string | null, guest_user_id: guestUserId as string | null }
+}
+
+// Clears the finished round and hands the next word to nextSetterId;
+// the first guesser after them in seat order starts
+async function startNextRound(
+  roomId: string,
+  players: RoomPlayer[],
+  nextSetterId: string | null,
+  roomUpdates: Record<string, unknown> = {},
+) {
+  const supabase = createServerClient()
+
+  // Reset room state
+  const { error: updateError } = await supabase
+    .from("rooms")
+    .update({
+      ...roomUpdates,
+      masked_word: null,
+      category: null,
+      hint_count: 0,
+      revealed_hints: [],
+      round_started_at: null,
+      round_deadline: null,
+      guess_deadline: null,
+      word_source: "player",
+      round_mode: "turns",
+      state: "waiting", // Back to waiting for new word
+      word_setter_user_id: nextSetterId,
+      current_turn_user_id: getNextGuesserId(players, nextSetterId, nextSetterId), // Assign next guesser
+    })
+    .eq("id", roomId)
+
+  if (updateError) {
+    console.error("Error resetting room:", updateError)
+    return { success: false, error: updateError.message }
+  }
+
+  // Delete old moves for a clean slate for the new round
+  const { error: deleteMovesError } = await supabase.from("moves").delete().eq("room_id", roomId)
+
+  if (deleteMovesError) {
+    console.error("Error deleting old moves:", deleteMovesError)
+    // Don't fail the whole reset if moves deletion fails, it's optional
+  }
+
+  const { error: deleteSecretError } = await supabase.from("room_secrets").delete().eq("room_id", roomId)
+
+  if (deleteSecretError) {
+    console.error("Error deleting old secret word:", deleteSecretError)
+  }
+
+  // Boards of the last race, if there was one
+  await supabase.from("race_moves").delete().eq("room_id", roomId)
+  await supabase.from("race_progress").delete().eq("room_id", roomId)
+
+  return { success: true }
+}
+
+// Room columns that record who won the match, if it is over
+async function getMatchWinner(room: any) {
+  const format: MatchFormat = room.match_format
+  if (format === "endless") {
+    return { match_winner_user_id: null }
+  }
+
+  const supabase = createServerClient()
+  const { data: rounds, error } = await supabase
+    .from("rounds")
+    .select("setter_user_id, guesser_user_id, guessing_team, misses, result, match_number")
+    .eq("room_id", room.id)
+    .eq("match_number", room.match_number)
+
+  if (error) {
+    console.error("Error fetching match rounds:", error)
+    return { match_winner_user_id: null }
+  }
+
+  if (format === "team_rounds") {
+    return { match_winner_team: getTeamMatchWinner(rounds, room.match_number, room.match_target, room.max_misses) }
+  }
+  return { match_winner_user_id: getMatchWinnerId(getMatchScores(rounds, room.match_number), format, room.match_target) }
+}
+
+// The signed-in user and the username they claimed, or null without a session or a profile
+async function getCurrentUser() {
+  const user = await getAuthUser()
+  if (!user) {
+    return null
+  }
+
+  const supabase = await createAuthClient()
+  const { data: profile } = await supabase.from("users").select("username").eq("id", user.id).maybeSingle()
+  return profile ? { id: user.id, username: profile.username as string } : null
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import type { EmailOtpType } from "@supabase/supabase-js"
+import { createAuthClient } from "@/lib/auth"
+
+// Landing page of the magic links: signs in, or confirms the email that upgrades a guest account
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl
+  const code = searchParams.get("code")
+  const tokenHash = searchParams.get("token_hash")
+  const type = searchParams.get("type") as EmailOtpType | null
+  const next = searchParams.get("next")?.startsWith("/") ? searchParams.get("next")! : "/"
+
+  const supabase = await createAuthClient()
+  const { error } = code
+    ? await supabase.auth.exchangeCodeForSession(code)
+    : tokenHash && type
+      ? await supabase.auth.verifyOtp({ token_hash: tokenHash, type })
+      : { error: new Error("Missing auth code.") }
+
+  if (error) {
+    console.error("Error completing sign in:", error)
+    return NextResponse.redirect(`${origin}/?auth_error=1`)
+  }
+  return NextResponse.redirect(`${origin}${next}`)
+}
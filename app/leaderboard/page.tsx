@@ -0,0 +1,185 @@
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ModeToggle } from "@/components/mode-toggle"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { getLeaderboardPage } from "@/app/actions"
+import {
+  LEADERBOARD_METRICS,
+  LEADERBOARD_PERIODS,
+  METRIC_LABELS,
+  MIN_ROUNDS_FOR_RATE,
+  PERIOD_LABELS,
+  type LeaderboardMetric,
+  type LeaderboardPeriod,
+  isLeaderboardMetric,
+  isLeaderboardPeriod,
+} from "@/lib/leaderboard"
+import { cn } from "@/lib/utils"
+
+interface LeaderboardPageProps {
+  searchParams: Promise<{
+    period?: string
+    metric?: string
+    page?: string
+    friends?: string
+  }>
+}
+
+interface LeaderboardFilters {
+  period: LeaderboardPeriod
+  metric: LeaderboardMetric
+  page: number
+  friends: boolean
+}
+
+const getHref = ({ period, metric, page, friends }: LeaderboardFilters) =>
+  `/leaderboard?${new URLSearchParams({ period, metric, page: String(page), ...(friends ? { friends: "1" } : {}) })}`
+
+// First, last and the pages around the current one; null marks a gap
+function getPageNumbers(current: number, total: number) {
+  const pages: (number | null)[] = []
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+export default async function LeaderboardPage({ searchParams }: LeaderboardPageProps) {
+  const params = await searchParams
+  const filters: LeaderboardFilters = {
+    period: isLeaderboardPeriod(params.period) ? params.period : "week",
+    metric: isLeaderboardMetric(params.metric) ? params.metric : "wins",
+    page: Math.max(1, Number.parseInt(params.page ?? "1", 10) || 1),
+    friends: params.friends === "1",
+  }
+  const { entries, totalPages, usernames, currentUserId, error } = await getLeaderboardPage(
+    filters.period,
+    filters.metric,
+    filters.page,
+    filters.friends,
+  )
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-6 md:p-8 bg-background relative">
+      <div className="absolute top-4 left-4">
+        <Button asChild variant="outline" className="text-sm px-3 py-2 rounded-full flex items-center gap-1 bg-transparent">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+            Inicio
+          </Link>
+        </Button>
+      </div>
+      <div className="absolute top-4 right-4">
+        <ModeToggle />
+      </div>
+      <Card className="card-base-style w-full max-w-3xl p-4 sm:p-6 mt-12">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl sm:text-3xl text-primary">Clasificación</CardTitle>
+          <CardDescription className="text-foreground/80 text-sm sm:text-base">
+            Rondas adivinadas en todas las salas.
+            {filters.metric !== "wins" && ` Hacen falta al menos ${MIN_ROUNDS_FOR_RATE} rondas para aparecer.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap justify-center gap-2">
+            {LEADERBOARD_PERIODS.map((period) => (
+              <Button key={period} asChild size="sm" variant={period === filters.period ? "default" : "outline"}>
+                <Link href={getHref({ ...filters, period, page: 1 })}>{PERIOD_LABELS[period]}</Link>
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-center gap-2">
+            {LEADERBOARD_METRICS.map((metric) => (
+              <Button key={metric} asChild size="sm" variant={metric === filters.metric ? "default" : "outline"}>
+                <Link href={getHref({ ...filters, metric, page: 1 })}>{METRIC_LABELS[metric]}</Link>
+              </Button>
+            ))}
+            <Button asChild size="sm" variant={filters.friends ? "default" : "outline"}>
+              <Link href={getHref({ ...filters, friends: !filters.friends, page: 1 })}>Gente con la que he jugado</Link>
+            </Button>
+          </div>
+
+          {error ? (
+            <p className="text-center text-foreground/60">
+              {filters.friends ? "Entra con tu cuenta para ver a la gente con la que has jugado." : "No se pudo cargar la clasificación."}
+            </p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-foreground/60">Todavía no hay nadie en esta clasificación.</p>
+          ) : (
+            <ol className="divide-y divide-border">
+              {entries.map((entry) => {
+                const username = usernames[entry.userId]
+                return (
+                  <li
+                    key={entry.userId}
+                    className={cn(
+                      "flex items-center justify-between gap-3 py-2",
+                      entry.userId === currentUserId && "font-semibold text-primary",
+                    )}
+                  >
+                    <span className="flex items-center gap-3">
+                      <span className="w-8 text-right text-foreground/60">{entry.rank}.</span>
+                      {username ? (
+                        <Link href={`/profile/${encodeURIComponent(username)}`} className="hover:underline">
+                          {username}
+                        </Link>
+                      ) : (
+                        "Jugador"
+                      )}
+                    </span>
+                    <span className="text-sm text-foreground/80">
+                      {entry.roundsWon}/{entry.roundsPlayed} · {Math.round(entry.winRate * 100)}% ·{" "}
+                      {entry.averageMisses.toFixed(1)} fallos
+                    </span>
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+
+          {totalPages > 1 && (
+            <Pagination>
+              <PaginationContent>
+                {filters.page > 1 && (
+                  <PaginationItem>
+                    <PaginationPrevious href={getHref({ ...filters, page: filters.page - 1 })} />
+                  </PaginationItem>
+                )}
+                {getPageNumbers(filters.page, totalPages).map((page, index) => (
+                  <PaginationItem key={page ?? `gap-${index}`}>
+                    {page === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink href={getHref({ ...filters, page })} isActive={page === filters.page}>
+                        {page}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                {filters.page < totalPages && (
+                  <PaginationItem>
+                    <PaginationNext href={getHref({ ...filters, page: filters.page + 1 })} />
+                  </PaginationItem>
+                )}
+              </PaginationContent>
+            </Pagination>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
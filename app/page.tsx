@@ -1,7 +1,11 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { RoomCreationForm } from "@/components/room-creation-form"
 import { RoomJoinForm } from "@/components/room-join-form"
+import { RoomLobby } from "@/components/room-lobby"
 import { ModeToggle } from "@/components/mode-toggle"
+import { AccountPanel } from "@/components/account-panel"
+import { Button } from "@/components/ui/button"
+import Link from "next/link"
 
 export default function HomePage() {
   return (
@@ -12,6 +16,7 @@ export default function HomePage() {
       <h1 className="text-4xl sm:text-5xl font-bold text-center mb-6 sm:mb-8 text-primary drop-shadow-lg">
         Ahorcado Duo 🎮
       </h1>
+      <AccountPanel />
       <div className="grid md:grid-cols-2 gap-6 sm:gap-8 w-full max-w-4xl">
         <Card className="card-base-style p-4 sm:p-6 flex flex-col items-center justify-center text-center">
           <CardHeader>
@@ -36,6 +41,26 @@ export default function HomePage() {
             <RoomJoinForm />
           </CardContent>
         </Card>
+
+        <Card className="card-base-style p-4 sm:p-6 flex flex-col items-center justify-center text-center md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-2xl sm:text-3xl text-primary">Salas Abiertas</CardTitle>
+            <CardDescription className="text-foreground/80 text-sm sm:text-base">
+              Únete a una sala pública o deja que te emparejemos con otro jugador.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="w-full">
+            <RoomLobby />
+          </CardContent>
+        </Card>
+      </div>
+      <div className="mt-6 sm:mt-8 flex flex-wrap justify-center gap-3">
+        <Button asChild variant="outline" className="bg-transparent">
+          <Link href="/practice">¿Sin partner? Practica tú solo</Link>
+        </Button>
+        <Button asChild variant="outline" className="bg-transparent">
+          <Link href="/leaderboard">Clasificación</Link>
+        </Button>
       </div>
     </main>
   )
@@ -0,0 +1,35 @@
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ModeToggle } from "@/components/mode-toggle"
+import { PracticeGame } from "@/components/practice-game"
+
+export default function PracticePage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-6 md:p-8 bg-background relative">
+      <div className="absolute top-4 left-4">
+        <Button asChild variant="outline" className="text-sm px-3 py-2 rounded-full flex items-center gap-1 bg-transparent">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+            Inicio
+          </Link>
+        </Button>
+      </div>
+      <div className="absolute top-4 right-4">
+        <ModeToggle />
+      </div>
+      <Card className="card-base-style w-full max-w-3xl p-4 sm:p-6 mt-12">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl sm:text-3xl text-primary">Modo Práctica</CardTitle>
+          <CardDescription className="text-foreground/80 text-sm sm:text-base">
+            Adivina palabras del banco tú solo y mantén tu racha.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PracticeGame />
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
@@ -0,0 +1,50 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ModeToggle } from "@/components/mode-toggle"
+import { ProfileStats } from "@/components/profile-stats"
+import { getPlayerProfile } from "@/app/actions"
+
+interface ProfilePageProps {
+  params: Promise<{
+    username: string
+  }>
+}
+
+export default async function ProfilePage({ params }: ProfilePageProps) {
+  const { username } = await params
+  const { profile } = await getPlayerProfile(decodeURIComponent(username))
+
+  if (!profile) {
+    notFound()
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-4 sm:p-6 md:p-8 bg-background relative">
+      <div className="absolute top-4 left-4">
+        <Button asChild variant="outline" className="text-sm px-3 py-2 rounded-full flex items-center gap-1 bg-transparent">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+            Inicio
+          </Link>
+        </Button>
+      </div>
+      <div className="absolute top-4 right-4">
+        <ModeToggle />
+      </div>
+      <Card className="card-base-style w-full max-w-3xl p-4 sm:p-6 mt-12">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl sm:text-3xl text-primary">{profile.username}</CardTitle>
+          <CardDescription className="text-foreground/80 text-sm sm:text-base">
+            Jugando desde {new Date(profile.createdAt).toLocaleDateString("es-ES", { month: "long", year: "numeric" })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProfileStats stats={profile.stats} opponentNames={profile.opponentNames} />
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
@@ -0,0 +1,24 @@
+import type React from "react"
+import { notFound, redirect } from "next/navigation"
+import { getRoomIdByCode } from "@/app/actions"
+import { isRoomUuid } from "@/lib/room-code"
+
+interface RoomLayoutProps {
+  children: React.ReactNode
+  params: Promise<{
+    id: string
+  }>
+}
+
+// /room/ABC123 lleva a la sala con ese código; el resto de la app usa el UUID
+export default async function RoomLayout({ children, params }: RoomLayoutProps) {
+  const { id } = await params
+  if (!isRoomUuid(id)) {
+    const roomId = await getRoomIdByCode(decodeURIComponent(id))
+    if (!roomId) {
+      notFound()
+    }
+    redirect(`/room/${roomId}`)
+  }
+  return children
+}
@@ -1,14 +1,23 @@
 "use client" // This page needs to be a client component to use useState for the modal
 
 import React, { useState, useEffect, useCallback } from "react" // Import React, useEffect and useCallback
-import { getRoomDetails, leaveRoom } from "@/app/actions"
+import { getInitialMoves, getRoomDetails, joinRoom, leaveRoom, watchRoom } from "@/app/actions"
 import { HangmanGame } from "@/components/hangman-game"
 import { Chat } from "@/components/chat"
 import { Card, CardContent, CardTitle } from "@/components/ui/card"
 import { ModeToggle } from "@/components/mode-toggle"
 import { Button } from "@/components/ui/button"
-import { Copy, LogOut, Loader2, MessageCircle, X } from "lucide-react" // Import icons
+import { Copy, Eye, LogOut, Loader2, MessageCircle, X } from "lucide-react" // Import icons
+import { Input } from "@/components/ui/input"
 import { ShareRoomLinkButton } from "@/components/share-room-link-button"
+import { RoomPlayersList, RoundsHistory } from "@/components/room-scoreboard"
+import { TeamScoreboard } from "@/components/team-panel"
+import { useRoomRounds } from "@/hooks/use-room-rounds"
+import { useRoomPlayers } from "@/hooks/use-room-players"
+import { useRoomSpectators } from "@/hooks/use-room-spectators"
+import type { RoomPlayer } from "@/lib/players"
+import type { PresenceStatus } from "@/lib/presence"
+import { TEAM_LABELS, getPlayerTeam, isTeamMode, type TeamId } from "@/lib/teams"
 import { useToast } from "@/components/ui/use-toast"
 import {
   AlertDialog,
@@ -33,6 +42,7 @@ export default function RoomPage({ params }: RoomPageProps) {
   const { toast } = useToast()
 
   const [roomDetails, setRoomDetails] = useState<any>(null)
+  const [initialMoves, setInitialMoves] = useState<any[]>([])
   const [currentUser, setCurrentUser] = useState<any>(null)
   const [fetchError, setFetchError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true) // New loading state
@@ -42,16 +52,32 @@ export default function RoomPage({ params }: RoomPageProps) {
   const [isChatOpen, setIsChatOpen] = useState(false)
   const [unreadMessages, setUnreadMessages] = useState(0)
   const [lastReadMessageId, setLastReadMessageId] = useState<string | null>(null)
+  // En el modo por equipos, cada jugador alterna entre el chat de la sala y el de su equipo
+  const [showTeamChat, setShowTeamChat] = useState(false)
+
+  // Historial de rondas: sobrevive a resetGame y alimenta el marcador del header
+  const rounds = useRoomRounds(roomId)
+  const players = useRoomPlayers(roomId)
+  const spectatorCount = useRoomSpectators(roomId)
+  // Estado de la sala que mantiene HangmanGame por Realtime, para los papeles del header
+  const [liveRoom, setLiveRoom] = useState<any>(null)
+  // Quién está conectado ahora mismo, según la presencia del canal de la sala
+  const [presence, setPresence] = useState<Record<string, PresenceStatus> | null>(null)
 
   useEffect(() => {
     const fetchInitialData = async () => {
       setIsLoading(true) // Start loading
-      const { room, currentUser: user, error } = await getRoomDetails(roomId)
+      // Las jugadas de la ronda en curso, para que al recargar se vean las letras y los fallos
+      const [{ room, currentUser: user, error }, moves] = await Promise.all([
+        getRoomDetails(roomId),
+        getInitialMoves(roomId),
+      ])
       if (error) {
         setFetchError(error)
       } else {
         setRoomDetails(room)
         setCurrentUser(user)
+        setInitialMoves(moves)
       }
       setIsLoading(false) // End loading
     }
@@ -100,6 +126,10 @@ export default function RoomPage({ params }: RoomPageProps) {
           <CardTitle className="text-3xl sm:text-4xl mb-4">Error</CardTitle>
           <CardContent className="text-base sm:text-lg">
             <p>{fetchError}</p>
+            {/* Quien abre el link sin ser jugador puede unirse o mirar la partida */}
+            {(fetchError === "You are not part of this room." || fetchError === "User not logged in.") && (
+              <WatchOrJoinForm roomId={roomId} />
+            )}
             <Button onClick={() => (window.location.href = "/")} className="mt-6 btn-primary-style">
               Volver al inicio
             </Button>
@@ -126,8 +156,15 @@ export default function RoomPage({ params }: RoomPageProps) {
     )
   }
 
-  const isHost = roomDetails.host_user_id === currentUser.id
-  const isGuest = roomDetails.guest_user_id === currentUser.id
+  const isSpectator = !!roomDetails.is_spectator
+  const headerPlayers = players.length > 0 ? players : roomDetails.players ?? []
+  // Si el anfitrión se va con más gente en la sala, otro jugador pasa a ser el anfitrión;
+  // solo se cierra la sala cuando sale el último
+  const isHost = (liveRoom ?? roomDetails).host_user_id === currentUser.id
+  const closesRoom = isHost && headerPlayers.length <= 1
+  const isTeamMatch = isTeamMode(roomDetails)
+  const myTeam = isTeamMatch ? getPlayerTeam(headerPlayers, currentUser.id) : null
+  const chatTeam = myTeam && showTeamChat ? myTeam : undefined
 
   const handleLeaveRoom = async () => {
     const result = await leaveRoom(roomId)
@@ -148,19 +185,33 @@ export default function RoomPage({ params }: RoomPageProps) {
         <div className="flex flex-col sm:flex-row justify-between items-center gap-4 p-4 bg-card rounded-3xl shadow-xl border border-border">
           <div className="text-center sm:text-left">
             <h1 className="text-2xl sm:text-3xl font-bold text-primary">Sala</h1>
-            <p className="text-sm sm:text-base text-foreground/80">
-              Anfitrión: {roomDetails.host_username} {isHost && "(Tú)"}
-              {roomDetails.guest_username && (
-                <>
-                  {" "}
-                  | Invitado: {roomDetails.guest_username} {isGuest && "(Tú)"}
-                </>
-              )}
-            </p>
+            <RoomPlayersList
+              players={headerPlayers}
+              room={liveRoom ?? roomDetails}
+              currentUserId={currentUser.id}
+              rounds={rounds}
+              presence={presence}
+            />
+            {isTeamMatch && (
+              <div className="mt-2">
+                <TeamScoreboard players={headerPlayers} room={liveRoom ?? roomDetails} rounds={rounds} />
+              </div>
+            )}
+            {(spectatorCount > 0 || isSpectator) && (
+              <p className="mt-1 flex items-center justify-center sm:justify-start gap-1 text-xs sm:text-sm text-foreground/60">
+                <Eye className="h-4 w-4" />
+                {spectatorCount} {spectatorCount === 1 ? "espectador" : "espectadores"}
+                {isSpectator && " (tú estás mirando)"}
+              </p>
+            )}
           </div>
           <div className="flex flex-wrap justify-center sm:justify-end items-center gap-2">
-            <CopyRoomIdButton roomId={roomId} />
-            <ShareRoomLinkButton roomId={roomId} />
+            <RoundsHistory
+              rounds={rounds}
+              usernames={Object.fromEntries(headerPlayers.map((player: RoomPlayer) => [player.user_id, player.username]))}
+            />
+            <CopyRoomIdButton roomCode={roomDetails.code ?? roomId} />
+            <ShareRoomLinkButton roomCode={roomDetails.code ?? roomId} />
             <div className="flex gap-2 ml-2">
               <ModeToggle />
               <Button
@@ -168,7 +219,7 @@ export default function RoomPage({ params }: RoomPageProps) {
                 variant="destructive"
                 size="icon"
                 className="rounded-full h-10 w-10"
-                aria-label={isHost ? "Cerrar Sala" : "Salir de Sala"}
+                aria-label={closesRoom ? "Cerrar Sala" : isSpectator ? "Dejar de mirar" : "Salir de Sala"}
               >
                 <LogOut className="h-5 w-5" />
               </Button>
@@ -186,18 +237,27 @@ export default function RoomPage({ params }: RoomPageProps) {
               roomId={roomId}
               currentUser={currentUser}
               initialRoomState={roomDetails}
-              initialMoves={[]} // Initial moves will be fetched by HangmanGame's useEffect
+              initialMoves={initialMoves}
+              rounds={rounds}
+              players={headerPlayers}
+              onRoomChange={setLiveRoom}
+              onPresenceChange={setPresence}
+              isSpectator={isSpectator}
             />
           </CardContent>
         </Card>
 
         {/* Chat Area - Solo visible en desktop */}
         <div className="hidden lg:flex card-base-style w-full lg:w-1/3 flex-col overflow-hidden">
+          {myTeam && <ChatChannelToggle team={myTeam} showTeamChat={showTeamChat} onChange={setShowTeamChat} />}
           <Chat 
+            key={chatTeam ?? "room"}
             roomId={roomId} 
             currentUser={currentUser} 
             initialMessages={[]} 
             onNewMessage={handleNewMessage}
+            readOnly={isSpectator && !roomDetails.spectators_can_chat}
+            team={chatTeam}
           />
         </div>
       </div>
@@ -239,12 +299,16 @@ export default function RoomPage({ params }: RoomPageProps) {
             
             {/* Contenido del chat */}
             <div className="h-[calc(100%-4rem)] flex flex-col">
+              {myTeam && <ChatChannelToggle team={myTeam} showTeamChat={showTeamChat} onChange={setShowTeamChat} />}
               <Chat 
+                key={chatTeam ?? "room"}
                 roomId={roomId} 
                 currentUser={currentUser} 
                 initialMessages={[]} 
                 onNewMessage={handleNewMessage}
                 isMobile={true}
+                readOnly={isSpectator && !roomDetails.spectators_can_chat}
+                team={chatTeam}
               />
             </div>
           </div>
@@ -255,11 +319,17 @@ export default function RoomPage({ params }: RoomPageProps) {
       <AlertDialog open={showLeaveConfirm} onOpenChange={setShowLeaveConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>{isHost ? "¿Cerrar la sala?" : "¿Salir de la sala?"}</AlertDialogTitle>
+            <AlertDialogTitle>
+              {closesRoom ? "¿Cerrar la sala?" : isSpectator ? "¿Dejar de mirar?" : "¿Salir de la sala?"}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              {isHost
-                ? "Si cierras la sala, la partida terminará para todos y el invitado será desconectado."
-                : "Si sales de la sala, no podrás volver a unirte a esta partida."}
+              {closesRoom
+                ? "Eres el único jugador: si sales, la sala se cerrará."
+                : isSpectator
+                  ? "La partida seguirá sin ti; puedes volver a mirarla con el link de la sala."
+                  : isHost
+                    ? "Otro jugador pasará a ser el anfitrión y la partida seguirá sin ti."
+                    : "La partida seguirá sin ti; puedes volver a unirte con el link de la sala si queda sitio."}
               ¿Estás seguro?
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -269,7 +339,7 @@ export default function RoomPage({ params }: RoomPageProps) {
               onClick={handleLeaveRoom}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              {isHost ? "Cerrar Sala" : "Salir de Sala"}
+              {closesRoom ? "Cerrar Sala" : isSpectator ? "Dejar de mirar" : "Salir de Sala"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -279,12 +349,12 @@ export default function RoomPage({ params }: RoomPageProps) {
 }
 
 // Client component to handle copy to clipboard
-function CopyRoomIdButton({ roomId }: { roomId: string }) {
+function CopyRoomIdButton({ roomCode }: { roomCode: string }) {
   "use client"
   const { toast } = useToast()
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(roomId)
+    navigator.clipboard.writeText(roomCode)
     toast({
       title: "Copiado!",
       description: "El código de la sala ha sido copiado al portapapeles.",
@@ -294,7 +364,76 @@ function CopyRoomIdButton({ roomId }: { roomId: string }) {
   return (
     <Button onClick={handleCopy} className="btn-primary-style text-sm px-3 py-2 rounded-full flex items-center gap-1">
       <Copy className="h-4 w-4" />
-      Copiar Código
+      <span className="font-mono tracking-widest">{roomCode}</span>
     </Button>
   )
-}
\ No newline at end of file
+}
+// Selector entre el chat de toda la sala y el privado del equipo
+function ChatChannelToggle({
+  team,
+  showTeamChat,
+  onChange,
+}: {
+  team: TeamId
+  showTeamChat: boolean
+  onChange: (showTeamChat: boolean) => void
+}) {
+  return (
+    <div className="flex-shrink-0 flex gap-2 px-4 pt-3">
+      <Button size="sm" variant={showTeamChat ? "outline" : "default"} onClick={() => onChange(false)}>
+        Sala
+      </Button>
+      <Button size="sm" variant={showTeamChat ? "default" : "outline"} onClick={() => onChange(true)}>
+        {TEAM_LABELS[team]}
+      </Button>
+    </div>
+  )
+}
+
+// Entrar a una sala desde su link: como jugador si queda sitio, o como espectador
+function WatchOrJoinForm({ roomId }: { roomId: string }) {
+  const { toast } = useToast()
+  const [username, setUsername] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleEnter = async (action: typeof joinRoom) => {
+    if (!username.trim()) {
+      toast({ title: "Error", description: "Por favor, introduce tu nombre.", variant: "destructive" })
+      return
+    }
+    setIsLoading(true)
+    // The actions redirect on success
+    const result = await action(roomId, username)
+    setIsLoading(false)
+    if (result && !result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="mt-6 space-y-2 text-left">
+      <Input
+        placeholder="Tu Nombre"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        className="input-base-style"
+        aria-label="Tu Nombre"
+        disabled={isLoading}
+      />
+      <div className="flex gap-2">
+        <Button onClick={() => handleEnter(joinRoom)} className="flex-1 btn-primary-style" disabled={isLoading}>
+          Unirse
+        </Button>
+        <Button
+          onClick={() => handleEnter(watchRoom)}
+          variant="outline"
+          className="flex-1 flex items-center gap-2 bg-transparent"
+          disabled={isLoading}
+        >
+          <Eye className="h-4 w-4" />
+          Mirar
+        </Button>
+      </div>
+    </div>
+  )
+}
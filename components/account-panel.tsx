@@ -0,0 +1,90 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { LogOut, Mail, UserRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { getAccount, sendMagicLink, signOut } from "@/app/actions"
+import { useToast } from "@/components/ui/use-toast"
+
+type Account = Awaited<ReturnType<typeof getAccount>>
+
+// Cuenta actual: invitado anónimo que puede guardar su cuenta con un email, o cuenta con email
+export function AccountPanel() {
+  const [account, setAccount] = useState<Account>(null)
+  const [email, setEmail] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    getAccount().then(setAccount)
+  }, [])
+
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) {
+      toast({ title: "Error", description: "Por favor, introduce tu email.", variant: "destructive" })
+      return
+    }
+    setIsSending(true)
+    const result = await sendMagicLink(email)
+    setIsSending(false)
+    if (!result.success) {
+      toast({ title: "No se pudo enviar el enlace", description: result.error, variant: "destructive" })
+    } else {
+      toast({ title: "¡Revisa tu correo!", description: "Te enviamos un enlace para entrar.", variant: "default" })
+      setEmail("")
+    }
+  }
+
+  const isGuest = !account || account.isAnonymous
+
+  return (
+    <div className="w-full max-w-4xl mb-6 flex flex-col sm:flex-row items-center justify-between gap-3 text-sm text-foreground/80">
+      <p className="flex items-center gap-2">
+        <UserRound className="h-4 w-4" />
+        {account?.username ? (
+          <span>
+            Jugando como{" "}
+            <Link href={`/profile/${encodeURIComponent(account.username)}`} className="font-medium hover:underline">
+              {account.username}
+            </Link>
+            {account.isAnonymous && " (invitado)"}
+          </span>
+        ) : (
+          "Elige un nombre para jugar como invitado"
+        )}
+        {account?.email && !account.isAnonymous && <span className="text-foreground/60">· {account.email}</span>}
+      </p>
+      {isGuest ? (
+        <form onSubmit={handleSendLink} className="flex w-full sm:w-auto gap-2">
+          <Label htmlFor="account-email" className="sr-only">
+            Email
+          </Label>
+          <Input
+            id="account-email"
+            type="email"
+            placeholder={account ? "Guarda tu cuenta con tu email" : "Entra con tu email"}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="input-base-style"
+            disabled={isSending}
+          />
+          <Button type="submit" variant="outline" className="shrink-0 flex items-center gap-2 bg-transparent" disabled={isSending}>
+            <Mail className="h-4 w-4" />
+            Enlace mágico
+          </Button>
+        </form>
+      ) : (
+        <Button onClick={() => signOut()} variant="outline" className="flex items-center gap-2 bg-transparent">
+          <LogOut className="h-4 w-4" />
+          Cerrar sesión
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -15,6 +15,7 @@ import useVoice from "@/hooks/use-voice"
 import { PushToTalkButton } from "./push-to-talk-button"
 import { GiphySelector } from "./giphy-selector"
 import { motion, AnimatePresence } from "framer-motion"
+import type { TeamId } from "@/lib/teams"
 
 interface Message {
   id: string
@@ -30,6 +31,8 @@ interface ChatProps {
   initialMessages: Message[]
   onNewMessage?: (messageId: string, isOwnMessage: boolean) => void
   isMobile?: boolean
+  readOnly?: boolean // espectadores en salas donde no pueden escribir
+  team?: TeamId // chat privado del equipo en el modo por equipos
 }
 
 // Cache global para mantener mensajes entre montajes/desmontajes
@@ -38,10 +41,15 @@ const messageCache = new Map<string, {
   lastUpdate: number
 }>()
 
-export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMobile = false }: ChatProps) {
+export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMobile = false, readOnly = false, team }: ChatProps) {
+  // El chat de equipo lee su propia tabla, filtrada por sala y equipo
+  const chatKey = team ? `${roomId}:${team}` : roomId
+  const chatTable = team ? "team_messages" : "messages"
+  const chatFilterColumn = team ? "team_channel" : "room_id"
+
   // Inicializar estado con cache si existe
   const getCachedData = () => {
-    const cached = messageCache.get(roomId)
+    const cached = messageCache.get(chatKey)
     if (cached && Date.now() - cached.lastUpdate < 60000) { // Cache válido por 1 minuto
       return cached.messages
     }
@@ -99,15 +107,15 @@ export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMob
     isConnecting, 
     error: voiceError,
     isConnected
-  } = useVoice(roomId, currentUser.id)
+  } = useVoice(chatKey, currentUser.id)
 
   // Actualizar cache cuando cambian los mensajes
   useEffect(() => {
-    messageCache.set(roomId, {
+    messageCache.set(chatKey, {
       messages: messages,
       lastUpdate: Date.now()
     })
-  }, [messages, roomId])
+  }, [messages, chatKey])
 
   // Función mejorada para scroll automático
   const scrollToBottom = useCallback((force: boolean = false) => {
@@ -224,9 +232,9 @@ export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMob
 
     try {
       const { data, error } = await supabase
-        .from("messages")
+        .from(chatTable)
         .select(`id, message, username, created_at, message_type`)
-        .eq("room_id", roomId)
+        .eq(chatFilterColumn, chatKey)
         .order("created_at", { ascending: true })
 
       if (error) {
@@ -299,7 +307,7 @@ export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMob
     } finally {
       isPollingRef.current = false
     }
-  }, [roomId, supabase, isInitialized])
+  }, [chatKey, chatTable, chatFilterColumn, supabase, isInitialized])
 
   // Función para limpiar recursos
   const cleanup = useCallback(() => {
@@ -344,14 +352,14 @@ export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMob
     reconnectAttemptsRef.current += 1
 
     const channel = supabase
-      .channel(`room_chat:${roomId}`)
+      .channel(team ? `team_chat:${chatKey}` : `room_chat:${roomId}`)
       .on(
         "postgres_changes",
         { 
           event: "INSERT", 
           schema: "public", 
-          table: "messages", 
-          filter: `room_id=eq.${roomId}` 
+          table: chatTable, 
+          filter: `${chatFilterColumn}=eq.${chatKey}` 
         },
         (payload) => {
           if (isUnmountedRef.current) return
@@ -447,7 +455,7 @@ export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMob
       })
 
     channelRef.current = channel
-  }, [roomId, supabase, currentUser.username, onNewMessage, cleanup, pollMessages])
+  }, [roomId, team, chatKey, chatTable, chatFilterColumn, supabase, currentUser.username, onNewMessage, cleanup, pollMessages])
 
   // Setup inicial con polling continuo en background
   useEffect(() => {
@@ -572,7 +580,7 @@ export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMob
     setNewMessage("")
 
     try {
-      const result = await sendMessage(roomId, message.trim(), type)
+      const result = await sendMessage(roomId, message.trim(), type, !!team)
       if (!result.success) {
         toast({
           title: "Error al enviar mensaje",
@@ -762,76 +770,82 @@ export function Chat({ roomId, currentUser, initialMessages, onNewMessage, isMob
         )}
       </div>
       
-      {/* Área de entrada de mensajes - DISEÑO ORIGINAL */}
-      <div className={cn(
-        "relative p-4 border-t border-border bg-muted/20 flex flex-row items-center gap-2 flex-shrink-0",
-        isMobile ? "p-3" : "p-4"
-      )}>
-        {/* Selector de GIFs */}
-        <AnimatePresence>
-          {showGiphySelector && (
-            <GiphySelector
-              onSelectGifAction={handleGifSelect}
-              onCloseAction={() => setShowGiphySelector(false)}
-              isMobile={isMobile}
-            />
-          )}
-        </AnimatePresence>
+      {readOnly ? (
+        <p className="p-4 border-t border-border bg-muted/20 text-center text-sm text-muted-foreground flex-shrink-0">
+          Los espectadores solo pueden leer el chat de esta sala.
+        </p>
+      ) : (
+        /* Área de entrada de mensajes - DISEÑO ORIGINAL */
+        <div className={cn(
+          "relative p-4 border-t border-border bg-muted/20 flex flex-row items-center gap-2 flex-shrink-0",
+          isMobile ? "p-3" : "p-4"
+        )}>
+          {/* Selector de GIFs */}
+          <AnimatePresence>
+            {showGiphySelector && (
+              <GiphySelector
+                onSelectGifAction={handleGifSelect}
+                onCloseAction={() => setShowGiphySelector(false)}
+                isMobile={isMobile}
+              />
+            )}
+          </AnimatePresence>
 
-        {/* Indicador de estado de voz */}
-        {!isConnected && (
-          <div className="flex items-center gap-1 text-xs text-muted-foreground">
-            <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse" />
-            <span>Conectando voz...</span>
-          </div>
-        )}
-        
-        <PushToTalkButton
-          start={startRecording}
-          stop={stopRecording}
-          isRecording={isRecording}
-          isConnecting={isConnecting}
-          disabled={!isConnected}
-        />
-
-        {/* Botón de GIFs */}
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => setShowGiphySelector(!showGiphySelector)}
-          className={cn(
-            "hover:bg-muted transition-colors",
-            showGiphySelector ? "bg-muted text-primary" : "text-muted-foreground",
-            isMobile ? "p-2" : "p-2"
+          {/* Indicador de estado de voz */}
+          {!isConnected && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse" />
+              <span>Conectando voz...</span>
+            </div>
           )}
-        >
-          <ImageIcon className={cn(isMobile ? "h-4 w-4" : "h-5 w-5")} />
-        </Button>
         
-        <form onSubmit={handleSendMessage} className="flex flex-1">
-          <Input
-            placeholder="Escribe un mensaje..."
-            value={newMessage}
-            onChange={handleInputChange}
-            className={cn(
-              "flex-1 input-base-style bg-background",
-              isMobile ? "text-base" : ""
-            )}
-            style={isMobile ? { fontSize: '16px' } : {}}
+          <PushToTalkButton
+            start={startRecording}
+            stop={stopRecording}
+            isRecording={isRecording}
+            isConnecting={isConnecting}
+            disabled={!isConnected}
           />
-          <Button 
-            type="submit" 
-            disabled={!newMessage.trim()}
+
+          {/* Botón de GIFs */}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowGiphySelector(!showGiphySelector)}
             className={cn(
-              "btn-primary-style rounded-full ml-2",
+              "hover:bg-muted transition-colors",
+              showGiphySelector ? "bg-muted text-primary" : "text-muted-foreground",
               isMobile ? "p-2" : "p-2"
             )}
           >
-            <Send className={cn(isMobile ? "h-4 w-4" : "h-5 w-5")} />
+            <ImageIcon className={cn(isMobile ? "h-4 w-4" : "h-5 w-5")} />
           </Button>
-        </form>
-      </div>
+        
+          <form onSubmit={handleSendMessage} className="flex flex-1">
+            <Input
+              placeholder={team ? "Escribe a tu equipo..." : "Escribe un mensaje..."}
+              value={newMessage}
+              onChange={handleInputChange}
+              className={cn(
+                "flex-1 input-base-style bg-background",
+                isMobile ? "text-base" : ""
+              )}
+              style={isMobile ? { fontSize: '16px' } : {}}
+            />
+            <Button 
+              type="submit" 
+              disabled={!newMessage.trim()}
+              className={cn(
+                "btn-primary-style rounded-full ml-2",
+                isMobile ? "p-2" : "p-2"
+              )}
+            >
+              <Send className={cn(isMobile ? "h-4 w-4" : "h-5 w-5")} />
+            </Button>
+          </form>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
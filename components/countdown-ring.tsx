@@ -0,0 +1,41 @@
+import { cn } from "@/lib/utils"
+
+interface CountdownRingProps {
+  secondsLeft: number
+  totalSeconds: number
+  className?: string
+}
+
+const RADIUS = 16
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS
+
+// Anillo que se vacía a medida que se acaba el tiempo, con los segundos restantes en el centro
+export function CountdownRing({ secondsLeft, totalSeconds, className }: CountdownRingProps) {
+  const progress = totalSeconds > 0 ? Math.min(1, Math.max(0, secondsLeft / totalSeconds)) : 0
+  const isRunningOut = progress <= 0.25
+
+  return (
+    <div
+      className={cn("relative inline-flex h-10 w-10 items-center justify-center", className)}
+      role="timer"
+      aria-label={`${secondsLeft} segundos restantes`}
+    >
+      <svg viewBox="0 0 40 40" className="absolute inset-0 h-full w-full -rotate-90">
+        <circle cx="20" cy="20" r={RADIUS} stroke="currentColor" strokeWidth="4" fill="none" className="text-muted" />
+        <circle
+          cx="20"
+          cy="20"
+          r={RADIUS}
+          stroke="currentColor"
+          strokeWidth="4"
+          fill="none"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - progress)}
+          className={cn("transition-all duration-300", isRunningOut ? "text-red-500" : "text-primary")}
+        />
+      </svg>
+      <span className={cn("text-xs font-bold", isRunningOut && "text-red-500")}>{secondsLeft}</span>
+    </div>
+  )
+}
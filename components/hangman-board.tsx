@@ -0,0 +1,58 @@
+"use client"
+
+import type React from "react"
+
+import { motion } from "framer-motion"
+import { HangmanDrawing } from "./hangman-drawing"
+import { VirtualKeyboard } from "./virtual-keyboard"
+
+interface HangmanBoardProps {
+  maskedWord: string
+  misses: number
+  maxMisses: number
+  letters: string[]
+  onKeyPress: (letter: string) => void
+  getStatus: (letter: string) => "default" | "correct" | "incorrect"
+  disabled?: boolean
+  children?: React.ReactNode // estado de la ronda, debajo de la palabra
+}
+
+// Palabra, dibujo y teclado: lo común a las salas y al modo práctica
+export function HangmanBoard({
+  maskedWord,
+  misses,
+  maxMisses,
+  letters,
+  onKeyPress,
+  getStatus,
+  disabled = false,
+  children,
+}: HangmanBoardProps) {
+  return (
+    <>
+      <div className="text-center mb-6 sm:mb-8">
+        <h2 className="text-4xl sm:text-5xl font-bold tracking-widest text-primary mb-4 font-mono">
+          {maskedWord.split("").map((char: string, index: number) => (
+            <motion.span
+              key={index}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={`inline-block ${char === " " ? "mx-4" : "mx-0.5"}`}
+            >
+              {char === " " ? "\u00A0" : char} {/* Usar espacio no rompible para mejor visualización */}
+            </motion.span>
+          ))}
+        </h2>
+        <p className="text-lg sm:text-xl text-foreground/80">Intentos restantes: {Math.max(0, maxMisses - misses)}</p>
+        {children}
+      </div>
+
+      <HangmanDrawing incorrectGuesses={misses} maxIncorrectGuesses={maxMisses} />
+
+      <div className="mt-6 sm:mt-8 w-full max-w-2xl">
+        <VirtualKeyboard onKeyPress={onKeyPress} getStatus={getStatus} disabled={disabled} letters={letters} />
+      </div>
+    </>
+  )
+}
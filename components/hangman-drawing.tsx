@@ -1,9 +1,13 @@
 interface HangmanDrawingProps {
   incorrectGuesses: number
+  maxIncorrectGuesses?: number
 }
 
-export function HangmanDrawing({ incorrectGuesses }: HangmanDrawingProps) {
-  const parts = [
+// Cuerpo clásico: con 6 fallos o menos solo se dibujan estas partes
+const BODY_PARTS = 6
+
+export function HangmanDrawing({ incorrectGuesses, maxIncorrectGuesses = BODY_PARTS }: HangmanDrawingProps) {
+  const bodyParts = [
     // Head
     <circle key="head" cx="100" cy="50" r="20" stroke="currentColor" strokeWidth="4" fill="none" />,
     // Body
@@ -17,6 +21,31 @@ export function HangmanDrawing({ incorrectGuesses }: HangmanDrawingProps) {
     // Right Leg
     <line key="right-leg" x1="100" y1="120" x2="130" y2="160" stroke="currentColor" strokeWidth="4" />,
   ]
+  // Detalles extra para salas con más de 6 fallos permitidos
+  const detailParts = [
+    // Left Eye
+    <circle key="left-eye" cx="93" cy="45" r="2" fill="currentColor" />,
+    // Right Eye
+    <circle key="right-eye" cx="107" cy="45" r="2" fill="currentColor" />,
+    // Mouth
+    <path key="mouth" d="M 92 60 Q 100 54 108 60" stroke="currentColor" strokeWidth="2" fill="none" />,
+    // Left Hand
+    <circle key="left-hand" cx="68" cy="112" r="3" fill="currentColor" />,
+    // Right Hand
+    <circle key="right-hand" cx="132" cy="112" r="3" fill="currentColor" />,
+    // Feet
+    <path key="feet" d="M 70 160 L 62 163 M 130 160 L 138 163" stroke="currentColor" strokeWidth="4" />,
+  ]
+
+  // Con más fallos permitidos que partes del cuerpo, los detalles se dibujan antes de
+  // la última pierna: el muñeco solo queda completo con el fallo que pierde la ronda
+  const extraParts = Math.max(0, maxIncorrectGuesses - BODY_PARTS)
+  const parts = [...bodyParts.slice(0, -1), ...detailParts.slice(0, extraParts), ...bodyParts.slice(-1)]
+
+  // Una parte por fallo cuando hay partes suficientes; con menos fallos permitidos,
+  // cada fallo dibuja varias partes para que el cuerpo se complete al perder
+  const misses = Math.min(incorrectGuesses, maxIncorrectGuesses)
+  const visibleParts = parts.slice(0, Math.ceil((misses * parts.length) / maxIncorrectGuesses))
 
   return (
     <div className="flex items-center justify-center w-full max-w-xs h-48">
@@ -25,9 +54,9 @@ export function HangmanDrawing({ incorrectGuesses }: HangmanDrawingProps) {
         <line x1="10" y1="170" x2="50" y2="170" stroke="currentColor" strokeWidth="4" /> {/* Base */}
         <line x1="30" y1="170" x2="30" y2="10" stroke="currentColor" strokeWidth="4" /> {/* Vertical */}
         <line x1="30" y1="10" x2="100" y2="10" stroke="currentColor" strokeWidth="4" /> {/* Horizontal */}
-        <line x1="100" y1="10" x2="100" y1="30" stroke="currentColor" strokeWidth="4" /> {/* Rope */}
+        <line x1="100" y1="10" x2="100" y2="30" stroke="currentColor" strokeWidth="4" /> {/* Rope */}
         {/* Hangman Parts */}
-        {parts.slice(0, incorrectGuesses)}
+        {visibleParts}
       </svg>
     </div>
   )
@@ -6,192 +6,476 @@ import { useState, useEffect, useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { setWord, sendMove, resetGame, switchWordSetter } from "@/app/actions" // Import switchWordSetter
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  setWord,
+  setRandomWord,
+  sendMove,
+  solveWord,
+  revealHint,
+  resetGame,
+  switchWordSetter,
+  startRematch,
+  expireTurnTimer,
+  getRoomDetails,
+  getRaceBoard,
+  getInitialMoves,
+  touchPresence,
+  forfeitAbsentPlayer,
+} from "@/app/actions" // Import switchWordSetter
 import { useToast } from "@/components/ui/use-toast"
 import { createBrowserClient } from "@/lib/supabase"
-import { HangmanDrawing } from "./hangman-drawing"
-import { VirtualKeyboard } from "./virtual-keyboard"
-import { motion } from "framer-motion"
-import { RefreshCw } from "lucide-react" // Import RefreshCw icon
+import { HangmanBoard } from "./hangman-board"
+import { CountdownRing } from "./countdown-ring"
+import { TeamPicker } from "./team-panel"
+import { RaceProgressList } from "./race-progress-list"
+import { Dices, Lightbulb, RefreshCw, Trophy, WifiOff } from "lucide-react" // Import RefreshCw icon
+import {
+  HINT_PENALTY,
+  MAX_CATEGORY_LENGTH,
+  MAX_HINTS,
+  MAX_HINT_LENGTH,
+  countMisses,
+  describeRoundRules,
+  getAlphabet,
+  getLettersOnly,
+  getRoomRules,
+} from "@/lib/hangman"
+import { describeMatchFormat, getMatchScores } from "@/lib/match"
+import type { RoundResult } from "@/lib/stats"
+import { type RoomPlayer, findUsername, getGuesserIds, getNextPlayerId } from "@/lib/players"
+import { TEAM_LABELS, getNextTeamSetterId, getPlayerTeam, getTeamMisses, isTeamMode } from "@/lib/teams"
+import { DIFFICULTY_LABELS, type Difficulty, WORD_BANK, pickRandomWord } from "@/lib/word-bank"
+import { isRaceMode } from "@/lib/race"
+import { ABSENCE_GRACE_SECONDS, PRESENCE_HEARTBEAT_SECONDS, type PresenceStatus } from "@/lib/presence"
+import { useCountdown } from "@/hooks/use-countdown"
+import { useRaceProgress } from "@/hooks/use-race-progress"
+
+// Letras del teclado y fallos a partir de las letras ya reveladas y de las jugadas de la ronda
+function getBoardState(revealedLetters: string[] = [], moves: any[] = []) {
+  const guessed = new Map<string, boolean>()
+  // Las letras ya reveladas en el patrón enmascarado son aciertos
+  revealedLetters.forEach((letter) => guessed.set(letter, true))
+  moves.forEach((move) => {
+    if (move.letter) {
+      guessed.set(move.letter, move.correct)
+    }
+  })
+  return { guessed, misses: countMisses(moves) }
+}
+
+// Aviso de sala cerrada (por el anfitrión o por inactividad) y vuelta al inicio
+function announceRoomClosed(toast: ReturnType<typeof useToast>["toast"], closedReason: string | null) {
+  toast({
+    title: "Sala Cerrada",
+    description:
+      closedReason === "expired"
+        ? "La sala se ha cerrado por inactividad. Serás redirigido al inicio."
+        : "El anfitrión ha cerrado la sala. Serás redirigido al inicio.",
+    variant: "destructive",
+  })
+  setTimeout(() => {
+    window.location.href = "/"
+  }, 3000)
+}
 
 interface HangmanGameProps {
   roomId: string
   currentUser: { id: string; username: string }
   initialRoomState: any
   initialMoves: any[]
+  rounds: RoundResult[]
+  players: RoomPlayer[]
+  onRoomChange?: (room: any) => void // para que la página muestre los papeles al día
+  onPresenceChange?: (presence: Record<string, PresenceStatus>) => void // indicadores de conexión del header
+  isSpectator?: boolean // solo mira: sin teclado, sin palabra y sin botones de ronda
 }
 
-const MAX_INCORRECT_GUESSES = 6 // Head, Body, 2 Arms, 2 Legs
-
-export function HangmanGame({ roomId, currentUser, initialRoomState, initialMoves }: HangmanGameProps) {
+export function HangmanGame({
+  roomId,
+  currentUser,
+  initialRoomState,
+  initialMoves,
+  rounds,
+  players,
+  onRoomChange,
+  onPresenceChange,
+  isSpectator = false,
+}: HangmanGameProps) {
   const { toast } = useToast()
   const supabase = createBrowserClient()
 
   const [room, setRoom] = useState(initialRoomState)
-  const [wordToGuess, setWordToGuess] = useState(initialRoomState.word || "")
-  const [guessedLetters, setGuessedLetters] = useState<Set<string>>(new Set())
+  // Solo quien establece la palabra la conoce; el resto ve room.masked_word
+  const [secretWord, setSecretWord] = useState(initialRoomState.word || "")
+  const [secretHints, setSecretHints] = useState<string[]>(initialRoomState.hints || [])
+  // Letra -> si fue correcta, según lo decidido por el servidor
+  const [guessedLetters, setGuessedLetters] = useState<Map<string, boolean>>(new Map())
   const [incorrectGuesses, setIncorrectGuesses] = useState(0)
-  const [gameStatus, setGameStatus] = useState<"playing" | "won" | "lost" | "waiting">("waiting")
+  const [gameStatus, setGameStatus] = useState<"playing" | "won" | "lost" | "waiting">(initialRoomState.state)
   const [hostWordInput, setHostWordInput] = useState("")
+  const [categoryInput, setCategoryInput] = useState("")
+  const [hintInputs, setHintInputs] = useState<string[]>(Array(MAX_HINTS).fill(""))
+  const [solveInput, setSolveInput] = useState("")
+  // Filtros del banco de palabras ("all" / "any" = sin filtro)
+  const [bankCategory, setBankCategory] = useState("all")
+  const [bankDifficulty, setBankDifficulty] = useState<Difficulty | "any">("any")
+  // En una carrera cada jugador tiene su propio tablero; room.masked_word no cambia hasta el final
+  const [raceMaskedWord, setRaceMaskedWord] = useState("")
 
   // Referencias para los sonidos
   const victoryAudioRef = useRef<HTMLAudioElement | null>(null)
   const defeatAudioRef = useRef<HTMLAudioElement | null>(null)
+  // Última versión conocida de la sala, para comparar en los eventos de Realtime
+  const roomRef = useRef(initialRoomState)
+  const previousStatusRef = useRef(initialRoomState.state)
+  // Jugadores de la sala, para poner nombre a los turnos dentro de los eventos de Realtime
+  const playersRef = useRef(players)
+  playersRef.current = players
+  const previousPlayersRef = useRef<RoomPlayer[] | null>(null)
+  // Resultado registrado por el servidor para la última ronda terminada
+  const [lastRound, setLastRound] = useState<any>(initialRoomState.last_round ?? null)
+  // Jugadores conectados al canal de la sala (null hasta la primera sincronización)
+  const [presence, setPresence] = useState<Record<string, PresenceStatus> | null>(null)
+  // Desde cuándo falta cada jugador desconectado, en milisegundos
+  const [offlineSince, setOfflineSince] = useState<Record<string, number>>({})
+  // Evita pagar dos veces la misma pista con dos clics seguidos
+  const [isRevealingHint, setIsRevealingHint] = useState(false)
+
+  const raceMode = isRaceMode(room)
+  const raceProgress = useRaceProgress(roomId)
+  const myRaceStatus = raceProgress.find((entry) => entry.user_id === currentUser.id)?.status
+  const isRoundOver = gameStatus === "won" || gameStatus === "lost"
+  const maskedWord: string = (raceMode && !isRoundOver && raceMaskedWord) || room.masked_word || ""
+  // Al recargar una ronda terminada, los fallos salen del resultado guardado (en una carrera, los del propio tablero)
+  const misses = isRoundOver && lastRound && !raceMode ? lastRound.misses : incorrectGuesses
+  const rules = getRoomRules(room)
+  const secondsLeft = useCountdown(
+    gameStatus !== "playing" ? null : rules.timerMode === "round" ? room.round_deadline : room.guess_deadline,
+  )
 
   const isHost = room.host_user_id === currentUser.id
-  const isGuest = room.guest_user_id === currentUser.id
-  // isMyTurn now means "it's my turn to be the guesser for this round"
-  const isMyTurnToGuess = room.current_turn_user_id === currentUser.id && room.state === "playing"
+  // El servidor solo deja empezar la siguiente ronda al anfitrión o a quien adivinaba
+  const canStartNextRound = isHost || room.current_turn_user_id === currentUser.id
+  // isMyTurn means "it's my turn to guess the next letter"
+  const isMyTurnToGuess =
+    room.state === "playing" && (raceMode ? myRaceStatus === "playing" : room.current_turn_user_id === currentUser.id)
   const isMyTurnToSetWord =
-    room.current_turn_user_id !== currentUser.id && room.state === "waiting" && room.guest_user_id
-
-  // Función helper para obtener solo las letras (sin espacios ni caracteres especiales)
-  const getLettersOnly = (word: string) => {
-    return word.split("").filter(char => /[A-ZÑ]/.test(char))
-  }
-
-  // Función helper para obtener letras únicas de una palabra (sin espacios)
-  const getUniqueLetters = (word: string) => {
-    return new Set(getLettersOnly(word))
-  }
+    room.word_setter_user_id === currentUser.id && room.state === "waiting" && room.guest_user_id
 
   useEffect(() => {
     // Initialize game state from initial props (solo en el primer render)
     setRoom(initialRoomState)
-    setWordToGuess(initialRoomState.word || "")
+    roomRef.current = initialRoomState
+    setSecretWord(initialRoomState.word || "")
+    setSecretHints(initialRoomState.hints || [])
     setGameStatus(initialRoomState.state)
-    const initialGuessed = new Set<string>()
-    let initialIncorrect = 0
-    if (initialMoves) {
-      initialMoves.forEach((move) => {
-        initialGuessed.add(move.letter)
-        if (!move.correct) {
-          initialIncorrect++
-        }
-      })
-    }
-    setGuessedLetters(initialGuessed)
-    setIncorrectGuesses(initialIncorrect)
+    const initialBoard = getBoardState(initialRoomState.revealed_letters, initialMoves)
+    setGuessedLetters(initialBoard.guessed)
+    setIncorrectGuesses(initialBoard.misses)
 
     // Supabase Realtime Subscriptions
+    let hasSubscribed = false
+    // Cada jugador publica en el canal si tiene la pestaña a la vista ("online") o no ("away")
+    const trackPresence = () => {
+      if (!isSpectator) {
+        channel.track({ status: document.visibilityState === "visible" ? "online" : "away" })
+      }
+    }
+
     const channel = supabase
-      .channel(`room:${roomId}`)
+      .channel(`room:${roomId}`, { config: { presence: { key: currentUser.id } } })
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<{ status: PresenceStatus }>()
+        setPresence(
+          Object.fromEntries(
+            Object.entries(state).map(([userId, metas]) => [
+              userId,
+              metas.some((meta) => meta.status === "online") ? "online" : "away",
+            ]),
+          ),
+        )
+      })
       .on(
         "postgres_changes",
         { event: "UPDATE", schema: "public", table: "rooms", filter: `id=eq.${roomId}` },
         (payload) => {
-          const updatedRoom = payload.new as any
-          const oldRoom = payload.old as any
+          const previousRoom = roomRef.current
+          // payload.new only has the row columns; keep the joined usernames we already have
+          const updatedRoom = { ...previousRoom, ...(payload.new as any) }
+          roomRef.current = updatedRoom
 
-          // Check for guest joining
-          if (!oldRoom.guest_user_id && updatedRoom.guest_user_id && updatedRoom.guest_user_id !== currentUser.id) {
+          setRoom(updatedRoom)
+          const revealedHints: string[] = updatedRoom.revealed_hints ?? []
+          if (revealedHints.length > (previousRoom.revealed_hints?.length ?? 0)) {
+            toast({ title: "¡Nueva pista!", description: revealedHints[revealedHints.length - 1], variant: "default" })
+          }
+          if (updatedRoom.host_user_id !== previousRoom.host_user_id && updatedRoom.state !== "finished") {
+            // The host left and another player took over the room
             toast({
-              title: "¡Jugador Conectado!",
-              description: `${updatedRoom.guest_username} se ha unido a la sala.`,
+              title: "Nuevo anfitrión",
+              description:
+                updatedRoom.host_user_id === currentUser.id
+                  ? "Ahora eres el anfitrión de la sala."
+                  : `${findUsername(playersRef.current, updatedRoom.host_user_id) ?? "Otro jugador"} es ahora el anfitrión.`,
               variant: "default",
             })
           }
-
-          setRoom(updatedRoom)
-          if (updatedRoom.word && updatedRoom.word !== wordToGuess) {
-            setWordToGuess(updatedRoom.word)
+          if (updatedRoom.masked_word && !previousRoom.masked_word) {
+            // A new word was set
             setGameStatus("playing")
-            setGuessedLetters(new Set())
+            setGuessedLetters(new Map())
             setIncorrectGuesses(0)
-          } else if (!updatedRoom.word && wordToGuess) {
+            // En el modo por equipos, los compañeros de quien la puso también la ven
+            const myTeam = getPlayerTeam(playersRef.current, currentUser.id)
+            if (
+              isTeamMode(updatedRoom) &&
+              updatedRoom.word_setter_user_id !== currentUser.id &&
+              myTeam &&
+              myTeam === getPlayerTeam(playersRef.current, updatedRoom.word_setter_user_id)
+            ) {
+              getRoomDetails(roomId).then(({ room: details }) => {
+                setSecretWord(details?.word ?? "")
+                setSecretHints(details?.hints ?? [])
+              })
+            }
+          } else if (!updatedRoom.masked_word && previousRoom.masked_word && updatedRoom.state !== "finished") {
             // Word was cleared, likely a game reset
-            setWordToGuess("")
+            setSecretWord("")
+            setSecretHints([])
+            setRaceMaskedWord("")
             setGameStatus("waiting")
-            setGuessedLetters(new Set())
+            setGuessedLetters(new Map())
             setIncorrectGuesses(0)
             toast({
               title: "¡Nueva Ronda!",
-              description: `Es el turno de ${updatedRoom.current_turn_username} para adivinar.`,
+              description: `${findUsername(playersRef.current, updatedRoom.word_setter_user_id) ?? "Otro jugador"} pone la palabra.`,
               variant: "default",
             })
           }
-          setGameStatus(updatedRoom.state)
+          // masked_word changes on every move; only sync the status when the room state changes
+          if (updatedRoom.state !== previousRoom.state) {
+            setGameStatus(updatedRoom.state)
+          }
 
-          // If room state becomes finished (e.g., host closed room), redirect
+          // If room state becomes finished (host closed it or it expired after being idle), redirect
           if (updatedRoom.state === "finished") {
-            toast({
-              title: "Sala Cerrada",
-              description: "El anfitrión ha cerrado la sala. Serás redirigido al inicio.",
-              variant: "destructive",
-            })
-            setTimeout(() => {
-              window.location.href = "/"
-            }, 3000)
+            announceRoomClosed(toast, updatedRoom.closed_reason)
           }
         },
       )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "rounds", filter: `room_id=eq.${roomId}` },
+        (payload) => {
+          setLastRound(payload.new)
+        },
+      )
       .on(
         "postgres_changes",
         { event: "INSERT", schema: "public", table: "moves", filter: `room_id=eq.${roomId}` },
         (payload) => {
           const newMove = payload.new as any
-          handleNewMove(newMove.letter, newMove.correct)
+          handleNewMove(newMove.letter, newMove.correct, newMove.misses)
+          if (newMove.kind === "timeout") {
+            toast({ title: "¡Tiempo agotado!", description: "Se cuenta como un fallo.", variant: "destructive" })
+          } else if (newMove.kind === "solve" && !newMove.correct) {
+            toast({
+              title: "Intento fallido",
+              description: `"${newMove.guess}" no es la palabra (-${newMove.misses} intentos).`,
+              variant: "destructive",
+            })
+          }
         },
       )
-      .subscribe()
+      .subscribe((status) => {
+        // Lo que pasó mientras el canal estaba caído no llega por Realtime: se vuelve a pedir
+        if (status === "CHANNEL_ERROR" || (status === "SUBSCRIBED" && hasSubscribed)) {
+          resyncRef.current()
+        }
+        if (status === "SUBSCRIBED") {
+          hasSubscribed = true
+          trackPresence()
+        }
+      })
+
+    // Al volver a la pestaña, el navegador puede haber pausado la conexión
+    const handleVisibilityChange = () => {
+      trackPresence()
+      if (document.visibilityState === "visible") {
+        resyncRef.current()
+      }
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
 
     return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
       supabase.removeChannel(channel)
     }
-  }, [roomId, supabase, currentUser.id, toast])
+  }, [roomId, supabase, currentUser.id, isSpectator, toast])
+
+  // Al empezar una carrera (o al recargar en medio de una) se carga el tablero propio
+  const isRacePlaying = raceMode && room.state === "playing"
+  const loadRaceBoard = useCallback(() => {
+    getRaceBoard(roomId).then(({ maskedWord: boardWord, moves }) => {
+      const board = getBoardState([], moves)
+      setGuessedLetters(board.guessed)
+      setIncorrectGuesses(board.misses)
+      setRaceMaskedWord(boardWord ?? "")
+    })
+  }, [roomId])
+  useEffect(() => {
+    if (isRacePlaying) {
+      loadRaceBoard()
+    }
+  }, [isRacePlaying, loadRaceBoard])
 
-  const handleNewMove = useCallback((letter: string, correct: boolean) => {
-    setGuessedLetters((prev) => new Set(prev).add(letter))
-    if (!correct) {
-      setIncorrectGuesses((prev) => prev + 1)
+  // Vuelve a cargar la sala, las jugadas y el resultado de la última ronda desde el servidor
+  const resync = useCallback(async () => {
+    const [{ room: details }, moves] = await Promise.all([getRoomDetails(roomId), getInitialMoves(roomId)])
+    if (!details) {
+      return
+    }
+    // The room may have been closed while this tab was asleep or offline
+    if (details.state === "finished" && roomRef.current.state !== "finished") {
+      announceRoomClosed(toast, details.closed_reason)
+    }
+    const syncedRoom = { ...roomRef.current, ...details }
+    roomRef.current = syncedRoom
+    setRoom(syncedRoom)
+    setSecretWord(details.word || "")
+    setSecretHints(details.hints || [])
+    setGameStatus(details.state)
+    setLastRound(details.last_round ?? null)
+    if (!isRaceMode(details)) {
+      const board = getBoardState(details.revealed_letters, moves)
+      setGuessedLetters(board.guessed)
+      setIncorrectGuesses(board.misses)
+    } else if (details.state === "playing") {
+      loadRaceBoard()
+    }
+  }, [roomId, loadRaceBoard, toast])
+  const resyncRef = useRef(resync)
+  resyncRef.current = resync
+
+  const handleNewMove = useCallback((letter: string | null, correct: boolean, moveMisses?: number) => {
+    // Las jugadas sin letra (tiempo agotado, resolver) solo suman sus fallos
+    if (letter) {
+      setGuessedLetters((prev) => new Map(prev).set(letter, correct))
+    }
+    const cost = moveMisses ?? (correct ? 0 : 1)
+    if (cost > 0) {
+      setIncorrectGuesses((prev) => prev + cost)
     }
   }, [])
 
+  // Al llegar a cero, cualquiera de los dos clientes avisa al servidor, que comprueba el plazo
+  // guardado y registra el fallo aunque el adivinador haya cerrado la pestaña.
+  // Se reintenta mientras el plazo no cambie, por si los relojes no coinciden. Si nadie
+  // tiene la sala abierta, el plazo vencido se aplica cuando alguien vuelve a entrar.
   useEffect(() => {
-    if (gameStatus === "playing" && wordToGuess) {
-      // Solo considerar las letras únicas (sin espacios) para determinar victoria
-      const uniqueLettersInWord = getUniqueLetters(wordToGuess)
-      const correctGuessedLetters = new Set([...guessedLetters].filter((letter) => uniqueLettersInWord.has(letter)))
-
-      if (correctGuessedLetters.size === uniqueLettersInWord.size) {
-        setGameStatus("won")
-        toast({
-          title: "¡Victoria!",
-          description: "¡Has adivinado la palabra!",
-          variant: "default",
-        })
-      } else if (incorrectGuesses >= MAX_INCORRECT_GUESSES) {
-        setGameStatus("lost")
-        toast({
-          title: "¡Derrota!",
-          description: `La palabra era: ${wordToGuess}`,
-          variant: "destructive",
-        })
-      }
-    }
-  }, [guessedLetters, incorrectGuesses, wordToGuess, gameStatus, toast])
+    if (secondsLeft !== 0) return
+    const interval = setInterval(() => {
+      expireTurnTimer(roomId)
+    }, 1500)
+    return () => clearInterval(interval)
+  }, [secondsLeft, roomId])
+
+  // Latido para el servidor, que lo usa para confirmar una ausencia antes de aplicar la regla
+  useEffect(() => {
+    if (isSpectator) return
+    touchPresence(roomId)
+    const interval = setInterval(() => touchPresence(roomId), PRESENCE_HEARTBEAT_SECONDS * 1000)
+    return () => clearInterval(interval)
+  }, [roomId, isSpectator])
 
-  // Efecto para reproducir sonidos de victoria o derrota
   useEffect(() => {
-    if (gameStatus === "won" && victoryAudioRef.current) {
-      victoryAudioRef.current.currentTime = 0;
-      victoryAudioRef.current.play();
-    } else if (gameStatus === "lost" && defeatAudioRef.current) {
-      defeatAudioRef.current.currentTime = 0;
-      defeatAudioRef.current.play();
+    if (!presence) return
+    onPresenceChange?.(presence)
+    setOfflineSince((previous) =>
+      Object.fromEntries(
+        players
+          .filter((player) => !presence[player.user_id])
+          .map((player) => [player.user_id, previous[player.user_id] ?? Date.now()]),
+      ),
+    )
+  }, [presence, players, onPresenceChange])
+
+  // Jugador desconectado que bloquea la partida: quien adivina ahora o el anfitrión
+  const absentPlayerId =
+    [room.state === "playing" && !raceMode ? room.current_turn_user_id : null, room.host_user_id].find(
+      (userId) => userId && userId !== currentUser.id && offlineSince[userId] !== undefined,
+    ) ?? null
+  const absenceDeadline = absentPlayerId
+    ? new Date(offlineSince[absentPlayerId] + ABSENCE_GRACE_SECONDS * 1000).toISOString()
+    : null
+  const absenceSecondsLeft = useCountdown(absenceDeadline)
+  const forfeitsOnAbsence = room.absence_rule === "forfeit"
+
+  // Pasado el margen, cualquier jugador conectado pide al servidor que aplique la regla;
+  // se reintenta por si el último latido del ausente es algo más reciente
+  useEffect(() => {
+    if (absenceSecondsLeft !== 0 || !absentPlayerId || !forfeitsOnAbsence || isSpectator) return
+    forfeitAbsentPlayer(roomId, absentPlayerId)
+    const interval = setInterval(() => forfeitAbsentPlayer(roomId, absentPlayerId), 5000)
+    return () => clearInterval(interval)
+  }, [absenceSecondsLeft, absentPlayerId, forfeitsOnAbsence, isSpectator, roomId])
+
+  // El resultado de la ronda lo decide el servidor (rooms.state pasa a "won" o "lost");
+  // solo anunciamos la transición, no un estado terminal ya cargado al entrar
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current
+    previousStatusRef.current = gameStatus
+    if (previousStatus !== "playing") {
+      return
     }
-  }, [gameStatus])
 
-  // Mostrar la palabra con espacios automáticamente revelados
-  const displayWord = wordToGuess.split("").map((char: string) => {
-    if (char === " ") {
-      return " " // Los espacios siempre se muestran
+    if (gameStatus === "won") {
+      toast({
+        title: "¡Victoria!",
+        description: "¡Se ha adivinado la palabra!",
+        variant: "default",
+      })
+      if (victoryAudioRef.current) {
+        victoryAudioRef.current.currentTime = 0
+        victoryAudioRef.current.play()
+      }
+    } else if (gameStatus === "lost") {
+      toast({
+        title: "¡Derrota!",
+        description: "Se acabaron los intentos.",
+        variant: "destructive",
+      })
+      if (defeatAudioRef.current) {
+        defeatAudioRef.current.currentTime = 0
+        defeatAudioRef.current.play()
+      }
     }
-    if (!/[A-ZÑ]/.test(char)) {
-      return char // Otros caracteres especiales también se muestran
+  }, [gameStatus, toast])
+
+  useEffect(() => {
+    onRoomChange?.(room)
+  }, [room, onRoomChange])
+
+  // Avisar cuando alguien entra o sale (la primera lista cargada no cuenta)
+  useEffect(() => {
+    const previousPlayers = previousPlayersRef.current
+    previousPlayersRef.current = players
+    if (!previousPlayers || previousPlayers.length === 0) {
+      return
     }
-    return guessedLetters.has(char) ? char : "_" // Solo las letras se ocultan si no han sido adivinadas
-  })
+    const isIn = (list: RoomPlayer[], userId: string) => list.some((player) => player.user_id === userId)
+    players
+      .filter((player) => !isIn(previousPlayers, player.user_id) && player.user_id !== currentUser.id)
+      .forEach((player) =>
+        toast({ title: "¡Jugador Conectado!", description: `${player.username} se ha unido a la sala.`, variant: "default" }),
+      )
+    previousPlayers
+      .filter((player) => !isIn(players, player.user_id))
+      .forEach((player) =>
+        toast({ title: "Jugador Desconectado", description: `${player.username} ha salido de la sala.`, variant: "default" }),
+      )
+  }, [players, currentUser.id, toast])
 
   const handleSetWord = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -202,31 +486,108 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
     
     // Validar que la palabra tenga al menos una letra
     const cleanWord = hostWordInput.toUpperCase().trim()
-    if (getLettersOnly(cleanWord).length === 0) {
+    if (getLettersOnly(cleanWord, rules).length === 0) {
       toast({ title: "Error", description: "La palabra debe contener al menos una letra.", variant: "destructive" })
       return
     }
     
-    const result = await setWord(roomId, cleanWord)
+    const result = await setWord(roomId, cleanWord, { category: categoryInput, hints: hintInputs })
     if (!result.success) {
       toast({ title: "Error", description: result.error, variant: "destructive" })
     } else {
       toast({ title: "Palabra establecida", description: "¡Que empiece el juego!", variant: "default" })
-      setHostWordInput("") // Solo limpiar el input, NO actualizar estados locales
+      setSecretWord(result.word ?? cleanWord)
+      setSecretHints(result.hints ?? [])
+      // Solo limpiar los inputs, NO actualizar el resto de estados locales
+      setHostWordInput("")
+      setCategoryInput("")
+      setHintInputs(Array(MAX_HINTS).fill(""))
       // El resto del estado se actualizará por la suscripción de Supabase
     }
   }
 
+  const getBankFilters = () => ({
+    category: bankCategory === "all" ? null : bankCategory,
+    difficulty: bankDifficulty === "any" ? null : bankDifficulty,
+  })
+
+  // Rellena el formulario con una palabra del banco; quien la pone la sigue viendo
+  const handleFillRandomWord = () => {
+    const pick = pickRandomWord(getBankFilters())
+    if (!pick) {
+      toast({ title: "Error", description: "No hay palabras con esos filtros.", variant: "destructive" })
+      return
+    }
+    setHostWordInput(pick.word)
+    setCategoryInput(pick.category)
+  }
+
+  // El servidor elige la palabra y no se la muestra a nadie, ni siquiera a quien la pidió
+  const handleRandomRound = async (playAsGuesser: boolean, race = false) => {
+    const result = await setRandomWord(roomId, { ...getBankFilters(), playAsGuesser, race })
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" })
+    } else {
+      toast({
+        title: race ? "¡Carrera!" : "Palabra sorpresa",
+        description: race ? "Todos adivinan a la vez. ¡Gana quien la resuelva primero!" : "¡Nadie sabe cuál es! Que empiece el juego.",
+        variant: "default",
+      })
+      setSecretWord("")
+      setSecretHints([])
+      setHostWordInput("")
+      setCategoryInput("")
+      setHintInputs(Array(MAX_HINTS).fill(""))
+    }
+  }
+
   const handleGuess = async (letter: string) => {
     if (gameStatus !== "playing" || guessedLetters.has(letter) || !isMyTurnToGuess) {
       return
     }
 
-    // Solo verificar si la letra está en las letras de la palabra (no espacios)
-    const correct = getLettersOnly(wordToGuess).includes(letter)
-    const result = await sendMove(roomId, letter, correct)
+    // El servidor decide si la letra es correcta a partir de la palabra guardada
+    const result = await sendMove(roomId, letter)
     if (!result.success) {
       toast({ title: "Error", description: result.error, variant: "destructive" })
+    } else if (raceMode && "maskedWord" in result) {
+      // Las jugadas de la carrera no llegan por Realtime: el tablero propio se actualiza aquí
+      handleNewMove(letter, !!result.correct)
+      setRaceMaskedWord(result.maskedWord ?? "")
+    }
+  }
+
+  const handleRevealHint = async () => {
+    setIsRevealingHint(true)
+    const result = await revealHint(roomId)
+    setIsRevealingHint(false)
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" })
+    }
+  }
+
+  const handleSolve = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (gameStatus !== "playing" || !isMyTurnToGuess || !solveInput.trim()) {
+      return
+    }
+
+    const result = await solveWord(roomId, solveInput)
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" })
+    } else {
+      if (raceMode && "maskedWord" in result) {
+        handleNewMove(null, !!result.correct, result.correct ? 0 : rules.solvePenalty)
+        setRaceMaskedWord(result.maskedWord ?? "")
+        if (!result.correct) {
+          toast({
+            title: "Intento fallido",
+            description: `"${solveInput}" no es la palabra (-${rules.solvePenalty} intentos).`,
+            variant: "destructive",
+          })
+        }
+      }
+      setSolveInput("")
     }
   }
 
@@ -239,6 +600,15 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
     }
   }
 
+  const handleRematch = async () => {
+    const result = await startRematch(roomId)
+    if (!result.success) {
+      toast({ title: "Error al empezar la revancha", description: result.error, variant: "destructive" })
+    } else {
+      toast({ title: "¡Revancha!", description: "Empieza una nueva partida en la misma sala.", variant: "default" })
+    }
+  }
+
   const handleSwitchWordSetter = async () => {
     const result = await switchWordSetter(roomId)
     if (!result.success) {
@@ -254,12 +624,96 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
 
   const getKeyboardStatus = (letter: string) => {
     if (guessedLetters.has(letter)) {
-      // Solo verificar si la letra está en las letras de la palabra (no espacios)
-      return getLettersOnly(wordToGuess).includes(letter) ? "correct" : "incorrect"
+      return guessedLetters.get(letter) ? "correct" : "incorrect"
     }
     return "default"
   }
 
+  const usernameFor = (userId: string | null) =>
+    findUsername(players, userId) ??
+    (userId === room.host_user_id ? room.host_username : userId === room.guest_user_id ? room.guest_username : null)
+  const currentTurnName = usernameFor(room.current_turn_user_id) ?? "otro jugador"
+
+  const isMatchMode = room.match_format && room.match_format !== "endless"
+  const teamMode = isTeamMode(room)
+  const matchScores = getMatchScores(rounds, room.match_number)
+  const teamMisses = getTeamMisses(rounds, room.match_number, rules.maxMisses).misses
+  const matchWinnerName = room.match_winner_user_id ? usernameFor(room.match_winner_user_id) || "Tu rival" : null
+  const matchOverText = room.match_winner_team
+    ? room.match_winner_team === "draw"
+      ? `¡Empate! Los dos equipos suman ${teamMisses.a} fallos`
+      : `¡${TEAM_LABELS[room.match_winner_team as keyof typeof TEAM_LABELS]} gana la partida!`
+    : matchWinnerName && `¡${matchWinnerName} gana la partida!`
+
+  const renderMatchProgress = () => {
+    if (!isMatchMode || !room.guest_user_id) {
+      return null
+    }
+
+    return (
+      <div className="mb-4 text-center text-sm sm:text-base text-foreground/80">
+        <span className="font-semibold text-primary">
+          Partida {room.match_number} · {describeMatchFormat(room.match_format, room.match_target)}
+        </span>
+        <span className="ml-2">
+          {teamMode
+            ? `${TEAM_LABELS.a} ${teamMisses.a} fallos · ${TEAM_LABELS.b} ${teamMisses.b} fallos`
+            : players.map((player) => `${player.username} ${matchScores[player.user_id] ?? 0}`).join(" · ")}
+        </span>
+      </div>
+    )
+  }
+
+  const renderClues = () => {
+    const revealedHints: string[] = room.revealed_hints ?? []
+    const hintCount: number = room.hint_count ?? 0
+    const canRevealHint = isMyTurnToGuess && gameStatus === "playing" && revealedHints.length < hintCount
+
+    if (!room.category && hintCount === 0) {
+      return null
+    }
+
+    return (
+      <div className="mt-3 space-y-1 text-sm sm:text-base">
+        {room.category && (
+          <p className="text-foreground/80">
+            Categoría: <span className="font-semibold text-primary">{room.category}</span>
+          </p>
+        )}
+        {/* Quien puso la palabra ve todas sus pistas y cuáles ya se revelaron */}
+        {(secretHints.length > 0 ? secretHints : revealedHints).map((hint, index) => (
+          <p key={index} className={index < revealedHints.length ? "text-foreground/80" : "text-foreground/40 italic"}>
+            <Lightbulb className="inline h-4 w-4 mr-1" />
+            {hint}
+            {index >= revealedHints.length && " (sin revelar)"}
+          </p>
+        ))}
+        {canRevealHint && (
+          <Button
+            onClick={handleRevealHint}
+            variant="outline"
+            size="sm"
+            className="mt-1 bg-transparent"
+            disabled={isRevealingHint}
+          >
+            <Lightbulb className="h-4 w-4 mr-1" />
+            Pedir pista ({hintCount - revealedHints.length} restantes, -{HINT_PENALTY} intento)
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  // Reparto de equipos, visible para los jugadores hasta que se juega la primera ronda de la partida
+  const renderTeamPicker = () =>
+    teamMode &&
+    !isSpectator &&
+    !rounds.some((round) => round.match_number === room.match_number) && (
+      <div className="mb-6 w-full max-w-md">
+        <TeamPicker roomId={roomId} players={players} maxPlayers={room.max_players} currentUserId={currentUser.id} />
+      </div>
+    )
+
   const renderGameArea = () => {
     if (room.state === "waiting") {
       if (!room.guest_user_id) {
@@ -278,9 +732,13 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
         // Current user should set the word
         return (
           <div className="flex flex-col items-center justify-center h-full w-full p-4">
+            {renderTeamPicker()}
             <h2 className="text-xl sm:text-2xl font-semibold mb-4 text-primary">Tu turno de establecer la palabra</h2>
             <p className="text-base sm:text-lg text-foreground/80 mb-6 text-center">
-              {room.current_turn_username} adivinará tu palabra.
+              {getGuesserIds(players, currentUser.id)
+                .map((userId) => usernameFor(userId))
+                .join(", ")}{" "}
+              {players.length > 2 ? "adivinarán" : "adivinará"} tu palabra.
             </p>
             <form onSubmit={handleSetWord} className="space-y-4 w-full max-w-sm">
               <div>
@@ -299,10 +757,98 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
                   Puedes usar espacios y frases
                 </p>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="category-input" className="text-sm font-medium text-primary">
+                  Categoría y pistas (opcional)
+                </Label>
+                <Input
+                  id="category-input"
+                  placeholder="Categoría: Ej. Lugares"
+                  value={categoryInput}
+                  onChange={(e) => setCategoryInput(e.target.value)}
+                  className="input-base-style"
+                  maxLength={MAX_CATEGORY_LENGTH}
+                />
+                {hintInputs.map((hint, index) => (
+                  <Input
+                    key={index}
+                    aria-label={`Pista ${index + 1}`}
+                    placeholder={`Pista ${index + 1}`}
+                    value={hint}
+                    onChange={(e) =>
+                      setHintInputs((prev) => prev.map((value, i) => (i === index ? e.target.value : value)))
+                    }
+                    className="input-base-style"
+                    maxLength={MAX_HINT_LENGTH}
+                  />
+                ))}
+                <p className="text-sm text-foreground/60 text-center">
+                  Cada pista que pida el adivinador le cuesta {HINT_PENALTY} intento
+                </p>
+              </div>
               <Button type="submit" className="w-full btn-primary-style">
                 Empezar Juego
               </Button>
             </form>
+            <div className="mt-6 w-full max-w-sm space-y-2 border-t border-border pt-4">
+              <Label className="text-sm font-medium text-primary">Banco de palabras</Label>
+              <div className="flex gap-2">
+                <Select value={bankCategory} onValueChange={setBankCategory}>
+                  <SelectTrigger aria-label="Categoría del banco" className="input-base-style">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas las categorías</SelectItem>
+                    {WORD_BANK.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={bankDifficulty} onValueChange={(value) => setBankDifficulty(value as Difficulty | "any")}>
+                  <SelectTrigger aria-label="Dificultad" className="input-base-style">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Cualquier dificultad</SelectItem>
+                    {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="button"
+                onClick={handleFillRandomWord}
+                variant="outline"
+                className="w-full flex items-center gap-2 bg-transparent"
+              >
+                <Dices className="h-4 w-4" />
+                Palabra aleatoria
+              </Button>
+              {/* En el modo por equipos la palabra siempre la pone un equipo al otro */}
+              {!teamMode && (
+                <>
+                  <p className="text-sm text-foreground/60 text-center">
+                    O jugad todos con una palabra sorpresa que nadie conoce:
+                  </p>
+                  <div className="flex gap-2">
+                    <Button type="button" onClick={() => handleRandomRound(false)} variant="secondary" className="flex-1">
+                      Empieza {currentTurnName}
+                    </Button>
+                    <Button type="button" onClick={() => handleRandomRound(true)} variant="secondary" className="flex-1">
+                      Empiezo yo
+                    </Button>
+                  </div>
+                  <Button type="button" onClick={() => handleRandomRound(false, true)} variant="secondary" className="w-full">
+                    Carrera: todos a la vez
+                  </Button>
+                </>
+              )}
+            </div>
             {isHost && (
               <Button
                 onClick={handleSwitchWordSetter}
@@ -310,23 +856,28 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
                 className="mt-4 flex items-center gap-2 bg-transparent"
               >
                 <RefreshCw className="h-4 w-4" />
-                Que {room.guest_username} establezca la palabra
+                Que{" "}
+                {usernameFor(
+                  teamMode ? getNextTeamSetterId(players, currentUser.id) : getNextPlayerId(players, currentUser.id),
+                )}{" "}
+                establezca la palabra
               </Button>
             )}
           </div>
         )
       } else {
         // Other user should set the word
-         const wordSetterName = room.current_turn_user_id === room.host_user_id 
-          ? (room.guest_username || "el otro jugador")
-          : (room.host_username || "el otro jugador")
+        const wordSetterName = usernameFor(room.word_setter_user_id) || "el otro jugador"
         
         return (
           <div className="flex flex-col items-center justify-center h-full w-full p-4">
+            {renderTeamPicker()}
             <h2 className="text-xl sm:text-2xl font-semibold mb-4 text-primary">
               Esperando que {wordSetterName} elija la palabra...
             </h2>
-            <p className="text-base sm:text-lg text-foreground/80 text-center">¡Prepárate para adivinar!</p>
+            <p className="text-base sm:text-lg text-foreground/80 text-center">
+              {isSpectator ? "Estás mirando esta partida." : "¡Prepárate para adivinar!"}
+            </p>
           </div>
         )
       }
@@ -335,53 +886,124 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
     // Game is playing or finished
     return (
       <div className="flex flex-col items-center justify-between h-full w-full p-4">
-        <div className="text-center mb-6 sm:mb-8">
-          <h2 className="text-4xl sm:text-5xl font-bold tracking-widest text-primary mb-4 font-mono">
-            {displayWord.map((char: string, index: number) => (
-              <motion.span
-                key={index}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-                className={`inline-block ${char === " " ? "mx-4" : "mx-0.5"}`}
-              >
-                {char === " " ? "\u00A0" : char} {/* Usar espacio no rompible para mejor visualización */}
-              </motion.span>
-            ))}
-          </h2>
-          <p className="text-lg sm:text-xl text-foreground/80">
-            Intentos restantes: {MAX_INCORRECT_GUESSES - incorrectGuesses}
-          </p>
+        <HangmanBoard
+          maskedWord={maskedWord}
+          misses={misses}
+          maxMisses={rules.maxMisses}
+          letters={getAlphabet(rules)}
+          onKeyPress={handleGuess}
+          getStatus={getKeyboardStatus}
+          disabled={!isMyTurnToGuess || gameStatus !== "playing"}
+        >
+          {secretWord && gameStatus === "playing" && (
+            <p className="text-sm sm:text-base text-foreground/60 mt-1">
+              {teamMode ? "Palabra de tu equipo" : "Tu palabra"}: {secretWord}
+            </p>
+          )}
+          {renderClues()}
           {gameStatus === "playing" && (
-            <p className="text-lg sm:text-xl font-semibold mt-2 text-secondary">
-              {isMyTurnToGuess ? "¡Es tu turno de adivinar!" : `Turno de ${room.current_turn_username} para adivinar`}
+            <div className="flex items-center justify-center gap-3 mt-2">
+              <p className="text-lg sm:text-xl font-semibold text-secondary">
+                {raceMode
+                  ? isMyTurnToGuess
+                    ? "¡Carrera! Resuélvela antes que tus rivales"
+                    : myRaceStatus === "lost"
+                      ? "Te quedaste sin intentos. Mira cómo acaba la carrera."
+                      : "Carrera en curso"
+                  : isMyTurnToGuess
+                    ? "¡Es tu turno de adivinar!"
+                    : `Turno de ${currentTurnName} para adivinar`}
+              </p>
+              {secondsLeft !== null && rules.timerSeconds && (
+                <CountdownRing
+                  secondsLeft={secondsLeft}
+                  totalSeconds={rules.timerSeconds}
+                  className={rules.timerMode === "round" ? "h-12 w-12" : undefined}
+                />
+              )}
+            </div>
+          )}
+          {absentPlayerId && absenceSecondsLeft !== null && (
+            <p className="mt-2 text-sm text-foreground/70 flex items-center justify-center gap-1">
+              <WifiOff className="h-4 w-4" />
+              {usernameFor(absentPlayerId) ?? "Un jugador"} se ha desconectado.{" "}
+              {!forfeitsOnAbsence
+                ? "Esperando a que vuelva..."
+                : absenceSecondsLeft > 0
+                  ? `Si no vuelve en ${absenceSecondsLeft} s, ${
+                      absentPlayerId === room.host_user_id ? "dejará de ser el anfitrión" : "perderá su turno"
+                    }.`
+                  : "Aplicando la regla de abandono..."}
             </p>
           )}
+          {raceMode && (
+            <RaceProgressList progress={raceProgress} players={players} currentUserId={currentUser.id} />
+          )}
           {gameStatus === "won" && (
-            <p className="text-2xl sm:text-3xl font-bold text-green-600 dark:text-green-400 mt-4">¡GANASTE!</p>
+            <p className="text-2xl sm:text-3xl font-bold text-green-600 dark:text-green-400 mt-4">
+              {raceMode
+                ? lastRound?.guesser_user_id === currentUser.id
+                  ? "¡GANASTE LA CARRERA!"
+                  : `¡${usernameFor(lastRound?.guesser_user_id ?? null) ?? "Tu rival"} ganó la carrera!`
+                : isSpectator
+                  ? "¡La adivinaron!"
+                  : "¡GANASTE!"}
+            </p>
           )}
           {gameStatus === "lost" && (
             <p className="text-2xl sm:text-3xl font-bold text-red-600 dark:text-red-400 mt-4">
-              ¡PERDISTE! La palabra era: {wordToGuess}
+              {isSpectator || raceMode ? "¡No la adivinaron!" : "¡PERDISTE!"} La palabra era: {maskedWord}
             </p>
           )}
-        </div>
-
-        <HangmanDrawing incorrectGuesses={incorrectGuesses} />
+          {isRoundOver && lastRound?.duration_seconds != null && (
+            <p className="text-sm sm:text-base text-foreground/60 mt-2">
+              Ronda terminada en {lastRound.duration_seconds}s con {lastRound.misses} fallos
+            </p>
+          )}
+        </HangmanBoard>
+
+        {isMyTurnToGuess && gameStatus === "playing" && (
+          <form onSubmit={handleSolve} className="mt-4 flex w-full max-w-md gap-2">
+            <Label htmlFor="solve-input" className="sr-only">
+              Resolver la palabra
+            </Label>
+            <Input
+              id="solve-input"
+              placeholder="¿Ya la sabes? Escribe la palabra"
+              value={solveInput}
+              onChange={(e) => setSolveInput(e.target.value.toUpperCase())}
+              className="input-base-style text-center tracking-widest"
+              maxLength={30}
+            />
+            <Button type="submit" variant="outline" className="shrink-0" disabled={!solveInput.trim()}>
+              Resolver (-{rules.solvePenalty} si fallas)
+            </Button>
+          </form>
+        )}
 
-        <div className="mt-6 sm:mt-8 w-full max-w-2xl">
-          <VirtualKeyboard
-            onKeyPress={handleGuess}
-            getStatus={getKeyboardStatus}
-            disabled={!isMyTurnToGuess || gameStatus !== "playing"}
-          />
-        </div>
+        {isRoundOver && matchOverText && (
+          <div className="mt-6 sm:mt-8 flex flex-col items-center gap-3">
+            <p className="text-xl sm:text-2xl font-bold text-primary flex items-center gap-2">
+              <Trophy className="h-6 w-6" />
+              {matchOverText}
+            </p>
+            {!isSpectator && (
+              <Button onClick={handleRematch} className="btn-primary-style">
+                Revancha
+              </Button>
+            )}
+          </div>
+        )}
 
-        {(gameStatus === "won" || gameStatus === "lost") && (
+        {isRoundOver && !matchOverText && canStartNextRound && (
           <Button onClick={handleResetGame} className="mt-6 sm:mt-8 btn-primary-style">
             Volver a Jugar
           </Button>
         )}
+
+        {isRoundOver && !matchOverText && !canStartNextRound && !isSpectator && (
+          <p className="mt-6 sm:mt-8 text-foreground/70">Esperando a que empiece la siguiente ronda...</p>
+        )}
       </div>
     )
   }
@@ -391,7 +1013,11 @@ export function HangmanGame({ roomId, currentUser, initialRoomState, initialMove
       {/* Audios ocultos para victoria y derrota */}
       <audio ref={victoryAudioRef} src="/victory.mp3" preload="auto" />
       <audio ref={defeatAudioRef} src="/defeat.mp3" preload="auto" />
-      <div className="w-full h-full flex flex-col items-center justify-center">{renderGameArea()}</div>
+      <div className="w-full h-full flex flex-col items-center justify-center">
+        {renderMatchProgress()}
+        <p className="mb-2 text-center text-xs sm:text-sm text-foreground/60">{describeRoundRules(rules)}</p>
+        {renderGameArea()}
+      </div>
     </>
   )
 }
\ No newline at end of file
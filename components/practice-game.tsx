@@ -0,0 +1,158 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Dices, Flame, Trophy } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { HangmanBoard } from "./hangman-board"
+import {
+  DEFAULT_ROUND_RULES,
+  type Move,
+  countMisses,
+  getAlphabet,
+  getRoundStatus,
+  isGuessableLetter,
+  maskWord,
+  normalizeLetter,
+} from "@/lib/hangman"
+import { DIFFICULTY_LABELS, type Difficulty, type WordBankPick, pickRandomWord } from "@/lib/word-bank"
+import { usePracticeStreak } from "@/hooks/use-practice-streak"
+
+const rules = DEFAULT_ROUND_RULES
+
+// Partida de un solo jugador contra el banco de palabras: sin sala, sin invitado y sin Realtime
+export function PracticeGame() {
+  const { streak, recordResult } = usePracticeStreak()
+  const [difficulty, setDifficulty] = useState<Difficulty | "any">("any")
+  const [pick, setPick] = useState<WordBankPick | null>(null)
+  const [moves, setMoves] = useState<Move[]>([])
+
+  const status = pick ? getRoundStatus(pick.word, moves, rules) : "playing"
+  const misses = countMisses(moves)
+  const maskedWord = pick
+    ? maskWord(
+        pick.word,
+        moves.filter((move) => move.correct).map((move) => move.letter as string),
+        rules,
+      )
+    : ""
+
+  const startNewWord = useCallback((nextDifficulty: Difficulty | "any") => {
+    setPick(pickRandomWord({ difficulty: nextDifficulty === "any" ? null : nextDifficulty }))
+    setMoves([])
+  }, [])
+
+  // La primera palabra se elige en el cliente para no descuadrar el HTML del servidor
+  useEffect(() => {
+    startNewWord("any")
+  }, [startNewWord])
+
+  const handleGuess = (letter: string) => {
+    if (!pick || status !== "playing" || !isGuessableLetter(letter, rules)) {
+      return
+    }
+    if (moves.some((move) => move.letter === letter)) {
+      return
+    }
+
+    const correct = pick.word.split("").some((char) => normalizeLetter(char, rules) === letter)
+    const nextMoves = [...moves, { letter, correct }]
+    setMoves(nextMoves)
+
+    const nextStatus = getRoundStatus(pick.word, nextMoves, rules)
+    if (nextStatus !== "playing") {
+      recordResult(nextStatus === "won")
+    }
+  }
+
+  // Saltar una palabra ya empezada cuenta como derrota y corta la racha
+  const handleNewWord = () => {
+    if (status === "playing" && moves.length > 0) {
+      recordResult(false)
+    }
+    startNewWord(difficulty)
+  }
+
+  const handleDifficultyChange = (value: string) => {
+    const nextDifficulty = value as Difficulty | "any"
+    setDifficulty(nextDifficulty)
+    if (moves.length === 0 || status !== "playing") {
+      startNewWord(nextDifficulty)
+    }
+  }
+
+  const getKeyboardStatus = (letter: string) => {
+    const move = moves.find((move) => move.letter === letter)
+    if (!move) {
+      return "default"
+    }
+    return move.correct ? "correct" : "incorrect"
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-between h-full w-full p-4">
+      <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
+        <Badge variant="outline" className="gap-1 font-medium" title="Racha actual">
+          <Flame className="h-3 w-3" />
+          Racha: {streak.current}
+        </Badge>
+        <Badge variant="outline" className="gap-1 font-medium" title="Mejor racha">
+          <Trophy className="h-3 w-3" />
+          Mejor: {streak.best}
+        </Badge>
+        <Badge variant="outline" className="font-medium">
+          {streak.won}/{streak.played} ganadas
+        </Badge>
+      </div>
+
+      <HangmanBoard
+        maskedWord={maskedWord}
+        misses={misses}
+        maxMisses={rules.maxMisses}
+        letters={getAlphabet(rules)}
+        onKeyPress={handleGuess}
+        getStatus={getKeyboardStatus}
+        disabled={!pick || status !== "playing"}
+      >
+        {pick && (
+          <p className="text-sm sm:text-base text-foreground/60 mt-1">
+            Categoría: <span className="font-semibold">{pick.category}</span> · {DIFFICULTY_LABELS[pick.difficulty]}
+          </p>
+        )}
+        {status === "won" && (
+          <p className="text-2xl sm:text-3xl font-bold text-green-600 dark:text-green-400 mt-4">¡GANASTE!</p>
+        )}
+        {status === "lost" && (
+          <p className="text-2xl sm:text-3xl font-bold text-red-600 dark:text-red-400 mt-4">
+            ¡PERDISTE! La palabra era: {pick?.word}
+          </p>
+        )}
+      </HangmanBoard>
+
+      <div className="mt-6 flex w-full max-w-md flex-col sm:flex-row items-center gap-2">
+        <Label htmlFor="practice-difficulty" className="sr-only">
+          Dificultad
+        </Label>
+        <Select value={difficulty} onValueChange={handleDifficultyChange}>
+          <SelectTrigger id="practice-difficulty" className="input-base-style">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Cualquier dificultad</SelectItem>
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleNewWord} className="w-full sm:w-auto btn-primary-style flex items-center gap-2">
+          <Dices className="h-4 w-4" />
+          {status === "playing" ? "Otra palabra" : "Nueva palabra"}
+        </Button>
+      </div>
+    </div>
+  )
+}
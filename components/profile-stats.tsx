@@ -0,0 +1,128 @@
+"use client"
+
+import Link from "next/link"
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { ProfileStats as Stats } from "@/lib/stats"
+
+const chartConfig = {
+  won: { label: "Acertadas", color: "hsl(var(--primary))" },
+  lost: { label: "Falladas", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`)
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("es-ES", { month: "short", year: "2-digit" })
+
+interface StatTileProps {
+  label: string
+  value: string | number
+  detail?: string
+}
+
+function StatTile({ label, value, detail }: StatTileProps) {
+  return (
+    <div className="rounded-lg border border-border p-3 text-center">
+      <p className="text-2xl font-bold text-primary">{value}</p>
+      <p className="text-sm text-foreground/80">{label}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  )
+}
+
+interface ProfileStatsProps {
+  stats: Stats
+  opponentNames: Record<string, string>
+}
+
+// Estadísticas de toda la vida de un jugador: resumen, rondas por mes, rivales y palabras difíciles
+export function ProfileStats({ stats, opponentNames }: ProfileStatsProps) {
+  if (stats.guessedRounds === 0 && stats.setRounds === 0) {
+    return <p className="text-center text-foreground/60">Todavía no ha jugado ninguna ronda.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <StatTile label="Partidas jugadas" value={stats.gamesPlayed} />
+        <StatTile
+          label="Aciertos adivinando"
+          value={formatRate(stats.guesserWinRate)}
+          detail={`${stats.guessedRounds} rondas`}
+        />
+        <StatTile
+          label="Victorias poniendo la palabra"
+          value={formatRate(stats.setterWinRate)}
+          detail={`${stats.setRounds} rondas`}
+        />
+        <StatTile
+          label="Media de fallos"
+          value={stats.averageMisses === null ? "—" : stats.averageMisses.toFixed(1)}
+        />
+        <StatTile label="Racha más larga" value={stats.longestStreak} detail="rondas acertadas seguidas" />
+      </div>
+
+      {stats.monthlyResults.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold text-primary">Rondas acertadas y falladas por mes</h3>
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <BarChart data={stats.monthlyResults}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={formatMonth} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatMonth} />} />
+              <Bar dataKey="won" stackId="results" fill="var(--color-won)" radius={[0, 0, 4, 4]} />
+              <Bar dataKey="lost" stackId="results" fill="var(--color-lost)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h3 className="font-semibold text-primary">Rivales favoritos</h3>
+          {stats.favoriteOpponents.length === 0 ? (
+            <p className="text-sm text-foreground/60">Sin rivales todavía.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {stats.favoriteOpponents.map((opponent) => {
+                const name = opponentNames[opponent.userId]
+                return (
+                  <li key={opponent.userId} className="flex justify-between">
+                    {name ? (
+                      <Link href={`/profile/${encodeURIComponent(name)}`} className="hover:underline">
+                        {name}
+                      </Link>
+                    ) : (
+                      <span>Jugador</span>
+                    )}
+                    <span className="text-foreground/60">{opponent.rounds} rondas</span>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+        <div className="space-y-2">
+          <h3 className="font-semibold text-primary">Palabras más difíciles</h3>
+          {stats.hardestWords.length === 0 ? (
+            <p className="text-sm text-foreground/60">Todavía no ha adivinado ninguna palabra.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {stats.hardestWords.map((word, index) => (
+                <li key={`${word.word}-${index}`} className="flex justify-between gap-2">
+                  <span className="font-mono tracking-wider">{word.word}</span>
+                  <span className="flex items-center gap-1 text-foreground/60">
+                    {word.misses} fallos
+                    {word.result === "lost" && <Badge variant="destructive">Fallada</Badge>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
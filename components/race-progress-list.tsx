@@ -0,0 +1,43 @@
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+import { findUsername, type RoomPlayer } from "@/lib/players"
+import type { RaceProgress } from "@/lib/race"
+
+interface RaceProgressListProps {
+  progress: RaceProgress[]
+  players: RoomPlayer[]
+  currentUserId: string
+}
+
+// Barras de progreso de los rivales en una carrera: letras acertadas y fallos, sin las letras
+export function RaceProgressList({ progress, players, currentUserId }: RaceProgressListProps) {
+  const opponents = progress.filter((entry) => entry.user_id !== currentUserId)
+
+  if (opponents.length === 0) {
+    return null
+  }
+
+  return (
+    <ul className="mt-3 w-full max-w-md space-y-2">
+      {opponents.map((entry) => (
+        <li key={entry.user_id} className="text-sm text-foreground/80">
+          <div className="flex justify-between">
+            <span>{findUsername(players, entry.user_id) ?? "Rival"}</span>
+            <span>
+              {entry.status === "won"
+                ? "¡Resuelta!"
+                : entry.status === "lost"
+                  ? "Eliminado"
+                  : `${entry.revealed_letters}/${entry.total_letters} letras · ${entry.misses} fallos`}
+            </span>
+          </div>
+          <Progress
+            value={entry.total_letters ? (entry.revealed_letters / entry.total_letters) * 100 : 0}
+            className="h-2"
+          />
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -2,18 +2,58 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { createRoom } from "@/app/actions"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { createRoom, getAccount } from "@/app/actions"
 import { useToast } from "@/components/ui/use-toast"
+import { BEST_OF_OPTIONS, MAX_FIRST_TO_POINTS, MIN_FIRST_TO_POINTS, type MatchFormat } from "@/lib/match"
+import { DEFAULT_ROUND_RULES, TIMER_SECONDS_RANGE, isValidRoundRules, type RoundRules } from "@/lib/hangman"
+import { MAX_PLAYERS, MIN_PLAYERS } from "@/lib/players"
+import { TEAM_ROUNDS_RANGE, isValidTeamRoomSize } from "@/lib/teams"
+import { ABSENCE_GRACE_SECONDS } from "@/lib/presence"
+import { RoundRulesFields } from "./round-rules-fields"
+
+const PLAYER_COUNT_OPTIONS = Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, index) => MIN_PLAYERS + index)
+const TEAM_PLAYER_COUNT_OPTIONS = PLAYER_COUNT_OPTIONS.filter(isValidTeamRoomSize)
 
 export function RoomCreationForm() {
   const [username, setUsername] = useState("")
+  // "endless", "first_to", "team_rounds" o "best_of:N"
+  const [matchOption, setMatchOption] = useState("endless")
+  const [firstToPoints, setFirstToPoints] = useState(5)
+  const [roundsPerTeam, setRoundsPerTeam] = useState(2)
+  const [rules, setRules] = useState<RoundRules>(DEFAULT_ROUND_RULES)
+  const [maxPlayers, setMaxPlayers] = useState(MIN_PLAYERS)
+  const [spectatorsCanChat, setSpectatorsCanChat] = useState(true)
+  const [isPublic, setIsPublic] = useState(false)
+  const [forfeitOnAbsence, setForfeitOnAbsence] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
 
+  // Quien ya tiene cuenta juega con el nombre que reclamó
+  useEffect(() => {
+    getAccount().then((account) => {
+      if (account?.username) {
+        setUsername(account.username)
+      }
+    })
+  }, [])
+
+  const isTeamMatch = matchOption === "team_rounds"
+  const playerCountOptions = isTeamMatch ? TEAM_PLAYER_COUNT_OPTIONS : PLAYER_COUNT_OPTIONS
+
+  const handleMatchOptionChange = (value: string) => {
+    setMatchOption(value)
+    // Los equipos necesitan un número par de jugadores, de 4 a 8
+    if (value === "team_rounds" && !isValidTeamRoomSize(maxPlayers)) {
+      setMaxPlayers(TEAM_PLAYER_COUNT_OPTIONS[0])
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!username.trim()) {
@@ -24,10 +64,60 @@ export function RoomCreationForm() {
       })
       return
     }
+    if (
+      matchOption === "first_to" &&
+      (!Number.isInteger(firstToPoints) || firstToPoints < MIN_FIRST_TO_POINTS || firstToPoints > MAX_FIRST_TO_POINTS)
+    ) {
+      toast({
+        title: "Error",
+        description: `Los puntos para ganar deben estar entre ${MIN_FIRST_TO_POINTS} y ${MAX_FIRST_TO_POINTS}.`,
+        variant: "destructive",
+      })
+      return
+    }
+    if (
+      isTeamMatch &&
+      (!Number.isInteger(roundsPerTeam) || roundsPerTeam < TEAM_ROUNDS_RANGE.min || roundsPerTeam > TEAM_ROUNDS_RANGE.max)
+    ) {
+      toast({
+        title: "Error",
+        description: `Las rondas por equipo deben estar entre ${TEAM_ROUNDS_RANGE.min} y ${TEAM_ROUNDS_RANGE.max}.`,
+        variant: "destructive",
+      })
+      return
+    }
+    if (!isValidRoundRules(rules)) {
+      const range = rules.timerMode !== "none" ? TIMER_SECONDS_RANGE[rules.timerMode] : null
+      toast({
+        title: "Error",
+        description: range
+          ? `El tiempo debe estar entre ${range.min} y ${range.max} segundos.`
+          : "Revisa las reglas de la ronda.",
+        variant: "destructive",
+      })
+      return
+    }
     setIsLoading(true)
     // The createRoom action will redirect on success, so `result` will be undefined.
     // We only check for `result` if an error occurred before the redirect.
-    const result = await createRoom(username)
+    const [format, bestOf] = matchOption.split(":")
+    const matchTarget =
+      format === "best_of"
+        ? Number(bestOf)
+        : format === "first_to"
+          ? firstToPoints
+          : format === "team_rounds"
+            ? roundsPerTeam
+            : null
+    const result = await createRoom(username, {
+      matchFormat: format as MatchFormat,
+      matchTarget,
+      rules,
+      maxPlayers,
+      spectatorsCanChat,
+      isPublic,
+      absenceRule: forfeitOnAbsence ? "forfeit" : "none",
+    })
     setIsLoading(false) // Set loading to false regardless, as redirect will handle success
 
     if (result && !result.success) {
@@ -54,6 +144,112 @@ export function RoomCreationForm() {
           disabled={isLoading}
         />
       </div>
+      <div className="space-y-2 text-left">
+        <Label htmlFor="match-format" className="text-sm font-medium text-primary">
+          Formato de partida
+        </Label>
+        <Select value={matchOption} onValueChange={handleMatchOptionChange} disabled={isLoading}>
+          <SelectTrigger id="match-format" className="input-base-style">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="endless">Rondas libres</SelectItem>
+            {BEST_OF_OPTIONS.map((rounds) => (
+              <SelectItem key={rounds} value={`best_of:${rounds}`}>
+                Al mejor de {rounds}
+              </SelectItem>
+            ))}
+            <SelectItem value="first_to">Primero en llegar a N puntos</SelectItem>
+            <SelectItem value="team_rounds">Equipo contra equipo</SelectItem>
+          </SelectContent>
+        </Select>
+        {matchOption === "first_to" && (
+          <Input
+            id="match-target"
+            type="number"
+            min={MIN_FIRST_TO_POINTS}
+            max={MAX_FIRST_TO_POINTS}
+            value={firstToPoints}
+            onChange={(e) => setFirstToPoints(Number(e.target.value))}
+            className="input-base-style"
+            aria-label="Puntos para ganar"
+            disabled={isLoading}
+          />
+        )}
+        {isTeamMatch && (
+          <>
+            <Input
+              id="rounds-per-team"
+              type="number"
+              min={TEAM_ROUNDS_RANGE.min}
+              max={TEAM_ROUNDS_RANGE.max}
+              value={roundsPerTeam}
+              onChange={(e) => setRoundsPerTeam(Number(e.target.value))}
+              className="input-base-style"
+              aria-label="Rondas por equipo"
+              disabled={isLoading}
+            />
+            <p className="text-xs text-muted-foreground">
+              Los equipos se turnan para poner la palabra. Gana el que acumule menos fallos.
+            </p>
+          </>
+        )}
+      </div>
+      <div className="space-y-2 text-left">
+        <Label htmlFor="max-players" className="text-sm font-medium text-primary">
+          Jugadores
+        </Label>
+        <Select value={String(maxPlayers)} onValueChange={(value) => setMaxPlayers(Number(value))} disabled={isLoading}>
+          <SelectTrigger id="max-players" className="input-base-style">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {playerCountOptions.map((count) => (
+              <SelectItem key={count} value={String(count)}>
+                {isTeamMatch
+                  ? `${count / 2} contra ${count / 2}`
+                  : count === MIN_PLAYERS
+                    ? `${count} jugadores (duelo)`
+                    : `Hasta ${count} jugadores`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="spectators-can-chat"
+            checked={spectatorsCanChat}
+            onCheckedChange={(checked) => setSpectatorsCanChat(checked === true)}
+            disabled={isLoading}
+          />
+          <Label htmlFor="spectators-can-chat" className="text-sm">
+            Los espectadores pueden escribir en el chat
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="public-room"
+            checked={isPublic}
+            onCheckedChange={(checked) => setIsPublic(checked === true)}
+            disabled={isLoading}
+          />
+          <Label htmlFor="public-room" className="text-sm">
+            Sala pública: aparece en las salas abiertas de la portada
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="forfeit-on-absence"
+            checked={forfeitOnAbsence}
+            onCheckedChange={(checked) => setForfeitOnAbsence(checked === true)}
+            disabled={isLoading}
+          />
+          <Label htmlFor="forfeit-on-absence" className="text-sm">
+            Quien se desconecte más de {ABSENCE_GRACE_SECONDS} s pierde su turno (y el anfitrión, su puesto)
+          </Label>
+        </div>
+      </div>
+      <RoundRulesFields rules={rules} onChange={setRules} disabled={isLoading} />
       <Button type="submit" className="w-full btn-primary-style" disabled={isLoading}>
         {isLoading ? "Creando..." : "Crear Sala"}
       </Button>
@@ -2,11 +2,11 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { joinRoom } from "@/app/actions"
+import { joinRoom, getAccount } from "@/app/actions"
 import { useToast } from "@/components/ui/use-toast"
 
 export function RoomJoinForm() {
@@ -15,6 +15,15 @@ export function RoomJoinForm() {
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
 
+  // Quien ya tiene cuenta juega con el nombre que reclamó
+  useEffect(() => {
+    getAccount().then((account) => {
+      if (account?.username) {
+        setUsername(account.username)
+      }
+    })
+  }, [])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!username.trim() || !roomId.trim()) {
@@ -61,7 +70,7 @@ export function RoomJoinForm() {
         </Label>
         <Input
           id="room-id"
-          placeholder="Código de Sala"
+          placeholder="Código de Sala (ej. K7MX4P)"
           value={roomId}
           onChange={(e) => setRoomId(e.target.value)}
           className="input-base-style"
@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Users, Zap } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { getAccount, joinRoom, quickMatch } from "@/app/actions"
+import { useToast } from "@/components/ui/use-toast"
+import { useOpenRooms } from "@/hooks/use-open-rooms"
+import { describeMatchFormat } from "@/lib/match"
+
+// Salas públicas esperando jugadores y botón de partida rápida
+export function RoomLobby() {
+  const openRooms = useOpenRooms()
+  const [username, setUsername] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  // Quien ya tiene cuenta juega con el nombre que reclamó
+  useEffect(() => {
+    getAccount().then((account) => {
+      if (account?.username) {
+        setUsername(account.username)
+      }
+    })
+  }, [])
+
+  // Las dos acciones redirigen a la sala si todo va bien
+  const handleEnter = async (enter: () => Promise<{ success: boolean; error?: string } | undefined>, title: string) => {
+    if (!username.trim()) {
+      toast({
+        title: "Error",
+        description: "Por favor, introduce un nombre de usuario.",
+        variant: "destructive",
+      })
+      return
+    }
+    setIsLoading(true)
+    const result = await enter()
+    setIsLoading(false)
+
+    if (result && !result.success) {
+      toast({ title, description: result.error, variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="space-y-4 w-full">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Label htmlFor="username-lobby" className="sr-only">
+          Tu Nombre
+        </Label>
+        <Input
+          id="username-lobby"
+          placeholder="Tu Nombre"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="input-base-style"
+          disabled={isLoading}
+        />
+        <Button
+          onClick={() => handleEnter(() => quickMatch(username), "Error en la partida rápida")}
+          className="shrink-0 btn-primary-style flex items-center gap-2"
+          disabled={isLoading}
+        >
+          <Zap className="h-4 w-4" />
+          Partida rápida
+        </Button>
+      </div>
+      {openRooms.length === 0 ? (
+        <p className="text-sm text-foreground/60 text-center">
+          No hay salas abiertas ahora mismo. Crea una pública o prueba la partida rápida.
+        </p>
+      ) : (
+        <ul className="divide-y divide-border text-left">
+          {openRooms.map((room) => (
+            <li key={room.id} className="flex items-center justify-between gap-3 py-2">
+              <div>
+                <p className="font-medium">
+                  Sala de {room.hostUsername ?? "Jugador"}
+                  {room.quickMatch && (
+                    <Badge variant="secondary" className="ml-2">
+                      Rápida
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-xs text-foreground/60 flex items-center gap-1">
+                  <Users className="h-3 w-3" />
+                  {room.playerCount}/{room.maxPlayers} · {describeMatchFormat(room.matchFormat, room.matchTarget)}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleEnter(() => joinRoom(room.id, username), "Error al unirse a sala")}
+                disabled={isLoading}
+              >
+                Unirse
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
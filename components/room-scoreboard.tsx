@@ -0,0 +1,128 @@
+"use client"
+
+import { Crown, History, Trophy, Zap } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { getPlayerScore, type RoundResult } from "@/lib/stats"
+import { getPlayerRole, type PlayerRole, type RoomPlayer } from "@/lib/players"
+import { TEAM_LABELS } from "@/lib/teams"
+import { PRESENCE_LABELS, type PresenceStatus } from "@/lib/presence"
+import { cn } from "@/lib/utils"
+import { TEAM_COLORS } from "./team-panel"
+
+interface PlayerScoreBadgeProps {
+  rounds: RoundResult[]
+  userId: string
+}
+
+// Marcador de un jugador: rondas ganadas como adivinador, media de fallos y resolución más rápida
+export function PlayerScoreBadge({ rounds, userId }: PlayerScoreBadgeProps) {
+  const score = getPlayerScore(rounds, userId)
+
+  return (
+    <Badge
+      variant="outline"
+      className="ml-1 gap-1 align-middle font-medium"
+      title="Rondas ganadas como adivinador · media de fallos · resolución más rápida"
+    >
+      <Trophy className="h-3 w-3" />
+      {score.roundsWon}/{score.roundsPlayed}
+      {score.averageMisses !== null && <span>· {score.averageMisses.toFixed(1)} fallos</span>}
+      {score.fastestSolveSeconds !== null && (
+        <span className="inline-flex items-center gap-0.5">
+          · <Zap className="h-3 w-3" />
+          {score.fastestSolveSeconds}s
+        </span>
+      )}
+    </Badge>
+  )
+}
+
+interface RoundsHistoryProps {
+  rounds: RoundResult[]
+  usernames: Record<string, string>
+}
+
+export function RoundsHistory({ rounds, usernames }: RoundsHistoryProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="text-sm px-3 py-2 rounded-full flex items-center gap-1 bg-transparent">
+          <History className="h-4 w-4" />
+          Historial ({rounds.length})
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 max-h-80 overflow-y-auto">
+        {rounds.length === 0 ? (
+          <p className="text-sm text-foreground/60 text-center">Todavía no hay rondas terminadas.</p>
+        ) : (
+          <ol className="space-y-2">
+            {[...rounds].reverse().map((round) => (
+              <li key={round.id} className="text-sm border-b border-border pb-2 last:border-0">
+                <p className="font-semibold font-mono tracking-wider">{round.word}</p>
+                <p className="text-foreground/70">
+                  {usernames[round.guesser_user_id ?? ""] ?? "Jugador"}{" "}
+                  {round.result === "won" ? "la adivinó" : "no la adivinó"} · {round.misses} fallos
+                  {round.duration_seconds !== null && ` · ${round.duration_seconds}s`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+const ROLE_LABELS: Record<PlayerRole, string> = {
+  setter: "pone la palabra",
+  guessing: "su turno",
+  guesser: "adivina",
+}
+
+interface RoomPlayersListProps {
+  players: RoomPlayer[]
+  room: any
+  currentUserId: string
+  rounds: RoundResult[]
+  presence?: Record<string, PresenceStatus> | null // null hasta saber quién está conectado
+}
+
+const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  online: "bg-green-500",
+  away: "bg-yellow-500",
+  offline: "bg-gray-400",
+}
+
+// Todos los jugadores de la sala con su papel en la ronda y su marcador
+export function RoomPlayersList({ players, room, currentUserId, rounds, presence }: RoomPlayersListProps) {
+  return (
+    <ul className="flex flex-wrap justify-center sm:justify-start gap-x-3 gap-y-1 text-sm sm:text-base text-foreground/80">
+      {players.map((player) => (
+        <li key={player.user_id} className="inline-flex items-center gap-1">
+          {presence && (
+            <span
+              className={cn("h-2 w-2 rounded-full", PRESENCE_COLORS[presence[player.user_id] ?? "offline"])}
+              title={PRESENCE_LABELS[presence[player.user_id] ?? "offline"]}
+              aria-label={PRESENCE_LABELS[presence[player.user_id] ?? "offline"]}
+            />
+          )}
+          {player.user_id === room.host_user_id && <Crown className="h-3 w-3 text-primary" aria-label="Anfitrión" />}
+          <span className={player.user_id === currentUserId ? "font-semibold" : undefined}>
+            {player.username ?? "Jugador"} {player.user_id === currentUserId && "(Tú)"}
+          </span>
+          {player.team && (
+            <span className={cn("text-xs", TEAM_COLORS[player.team])} title={TEAM_LABELS[player.team]}>
+              ●
+            </span>
+          )}
+          {room.guest_user_id && (
+            <span className="text-foreground/60">· {ROLE_LABELS[getPlayerRole(room, player.user_id, players)]}</span>
+          )}
+          <PlayerScoreBadge rounds={rounds} userId={player.user_id} />
+        </li>
+      ))}
+    </ul>
+  )
+}
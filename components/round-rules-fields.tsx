@@ -0,0 +1,157 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, Settings2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  MISSES_RANGE,
+  SOLVE_PENALTY_RANGE,
+  TIMER_SECONDS_RANGE,
+  type RoundRules,
+  type TimerMode,
+  describeRoundRules,
+} from "@/lib/hangman"
+
+interface RoundRulesFieldsProps {
+  rules: RoundRules
+  onChange: (rules: RoundRules) => void
+  disabled?: boolean
+}
+
+const missesOptions = Array.from({ length: MISSES_RANGE.max - MISSES_RANGE.min + 1 }, (_, i) => MISSES_RANGE.min + i)
+const solvePenaltyOptions = Array.from(
+  { length: SOLVE_PENALTY_RANGE.max - SOLVE_PENALTY_RANGE.min + 1 },
+  (_, i) => SOLVE_PENALTY_RANGE.min + i,
+)
+
+// Segundos propuestos al activar cada tipo de temporizador
+const DEFAULT_TIMER_SECONDS: Record<Exclude<TimerMode, "none">, number> = {
+  round: 120,
+  guess: 15,
+}
+
+export function RoundRulesFields({ rules, onChange, disabled = false }: RoundRulesFieldsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const update = (changes: Partial<RoundRules>) => onChange({ ...rules, ...changes })
+
+  const handleTimerModeChange = (timerMode: TimerMode) => {
+    update({ timerMode, timerSeconds: timerMode === "none" ? null : DEFAULT_TIMER_SECONDS[timerMode] })
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="text-left">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between px-2 text-sm" disabled={disabled}>
+          <span className="flex items-center gap-2">
+            <Settings2 className="h-4 w-4" />
+            Reglas: {describeRoundRules(rules)}
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        <div className="space-y-1">
+          <Label htmlFor="max-misses" className="text-sm font-medium text-primary">
+            Fallos permitidos
+          </Label>
+          <Select
+            value={String(rules.maxMisses)}
+            onValueChange={(value) => update({ maxMisses: Number(value) })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="max-misses" className="input-base-style">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {missesOptions.map((misses) => (
+                <SelectItem key={misses} value={String(misses)}>
+                  {misses}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="solve-penalty" className="text-sm font-medium text-primary">
+            Fallos por intentar resolver y equivocarse
+          </Label>
+          <Select
+            value={String(rules.solvePenalty)}
+            onValueChange={(value) => update({ solvePenalty: Number(value) })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="solve-penalty" className="input-base-style">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {solvePenaltyOptions.map((penalty) => (
+                <SelectItem key={penalty} value={String(penalty)}>
+                  {penalty}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="timer-mode" className="text-sm font-medium text-primary">
+            Temporizador
+          </Label>
+          <Select value={rules.timerMode} onValueChange={(value) => handleTimerModeChange(value as TimerMode)} disabled={disabled}>
+            <SelectTrigger id="timer-mode" className="input-base-style">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Sin tiempo</SelectItem>
+              <SelectItem value="round">Tiempo por ronda</SelectItem>
+              <SelectItem value="guess">Tiempo por letra</SelectItem>
+            </SelectContent>
+          </Select>
+          {rules.timerMode !== "none" && (
+            <Input
+              id="timer-seconds"
+              type="number"
+              min={TIMER_SECONDS_RANGE[rules.timerMode].min}
+              max={TIMER_SECONDS_RANGE[rules.timerMode].max}
+              value={rules.timerSeconds ?? ""}
+              onChange={(e) => update({ timerSeconds: Number(e.target.value) })}
+              className="input-base-style"
+              aria-label="Segundos"
+              disabled={disabled}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="count-enye"
+            checked={rules.countEnye}
+            onCheckedChange={(checked) => update({ countEnye: checked === true })}
+            disabled={disabled}
+          />
+          <Label htmlFor="count-enye" className="text-sm">
+            La Ñ es una letra propia (si no, cuenta como N)
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="count-accents"
+            checked={rules.countAccents}
+            onCheckedChange={(checked) => update({ countAccents: checked === true })}
+            disabled={disabled}
+          />
+          <Label htmlFor="count-accents" className="text-sm">
+            Las vocales con tilde son letras propias (Á, É, Í, Ó, Ú, Ü)
+          </Label>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -6,25 +6,26 @@ import { useToast } from "@/components/ui/use-toast"
 import { useEffect, useState } from "react"
 
 interface ShareRoomLinkButtonProps {
-  roomId: string
+  roomCode: string
 }
 
-export function ShareRoomLinkButton({ roomId }: ShareRoomLinkButtonProps) {
+export function ShareRoomLinkButton({ roomCode }: ShareRoomLinkButtonProps) {
   const { toast } = useToast()
   const [roomLink, setRoomLink] = useState("")
 
   useEffect(() => {
     // Ensure window is defined (client-side)
     if (typeof window !== "undefined") {
-      setRoomLink(`${window.location.origin}/room/${roomId}`)
+      setRoomLink(`${window.location.origin}/room/${roomCode}`)
     }
-  }, [roomId])
+  }, [roomCode])
 
   const handleShare = async () => {
     if (navigator.share) {
       try {
         await navigator.share({
           title: "Únete a mi partida de Ahorcado Duo!",
+          text: `Código de sala: ${roomCode}`,
           url: roomLink,
         })
         toast({
@@ -0,0 +1,103 @@
+"use client"
+
+import { useState } from "react"
+import { Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { setPlayerTeam } from "@/app/actions"
+import { useToast } from "@/components/ui/use-toast"
+import { cn } from "@/lib/utils"
+import type { RoomPlayer } from "@/lib/players"
+import type { RoundResult } from "@/lib/stats"
+import { TEAMS, TEAM_LABELS, getPlayerTeam, getTeamMembers, getTeamMisses, type TeamId } from "@/lib/teams"
+
+export const TEAM_COLORS: Record<TeamId, string> = {
+  a: "text-red-500",
+  b: "text-blue-500",
+}
+
+interface TeamScoreboardProps {
+  players: RoomPlayer[]
+  room: any
+  rounds: RoundResult[]
+}
+
+// Fallos acumulados por cada equipo en la partida actual
+export function TeamScoreboard({ players, room, rounds }: TeamScoreboardProps) {
+  const { misses, roundsPlayed } = getTeamMisses(rounds, room.match_number, room.max_misses)
+
+  return (
+    <div className="flex flex-wrap justify-center sm:justify-start gap-2">
+      {TEAMS.map((team) => (
+        <Badge
+          key={team}
+          variant="outline"
+          className={cn("gap-1 font-medium", room.match_winner_team === team && "border-primary")}
+          title="Fallos acumulados · rondas adivinadas"
+        >
+          <Users className={cn("h-3 w-3", TEAM_COLORS[team])} />
+          {TEAM_LABELS[team]} ({getTeamMembers(players, team).length}): {misses[team]} fallos ·{" "}
+          {roundsPlayed[team]}/{room.match_target}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+interface TeamPickerProps {
+  roomId: string
+  players: RoomPlayer[]
+  maxPlayers: number
+  currentUserId: string
+}
+
+// Reparto de equipos mientras la sala espera la palabra; cada jugador elige el suyo
+export function TeamPicker({ roomId, players, maxPlayers, currentUserId }: TeamPickerProps) {
+  const [isChanging, setIsChanging] = useState(false)
+  const { toast } = useToast()
+  const myTeam = getPlayerTeam(players, currentUserId)
+
+  const handleJoinTeam = async (team: TeamId) => {
+    setIsChanging(true)
+    const result = await setPlayerTeam(roomId, team)
+    setIsChanging(false)
+    if (!result.success) {
+      toast({
+        title: "No se pudo cambiar de equipo",
+        description: result.error,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3 w-full">
+      {TEAMS.map((team) => {
+        const members = getTeamMembers(players, team)
+        return (
+          <div key={team} className="rounded-lg border border-border p-3 text-left space-y-2">
+            <p className={cn("font-semibold", TEAM_COLORS[team])}>{TEAM_LABELS[team]}</p>
+            <ul className="text-sm text-foreground/80 space-y-1">
+              {members.map((player) => (
+                <li key={player.user_id}>
+                  {player.username ?? "Jugador"} {player.user_id === currentUserId && "(Tú)"}
+                </li>
+              ))}
+            </ul>
+            {myTeam !== team && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => handleJoinTeam(team)}
+                disabled={isChanging || members.length >= maxPlayers / 2}
+              >
+                Unirme
+              </Button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -3,11 +3,13 @@
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import { motion } from "framer-motion" // Import framer-motion
+import { ACCENTED_LETTERS, getAlphabet } from "@/lib/hangman"
 
 interface VirtualKeyboardProps {
   onKeyPress: (letter: string) => void
   getStatus: (letter: string) => "default" | "correct" | "incorrect"
   disabled?: boolean
+  letters?: string[] // alfabeto de la sala; por defecto A-Z más Ñ
 }
 
 const keyboardLayout = [
@@ -16,10 +18,15 @@ const keyboardLayout = [
   ["Z", "X", "C", "V", "B", "N", "M"],
 ]
 
-export function VirtualKeyboard({ onKeyPress, getStatus, disabled = false }: VirtualKeyboardProps) {
+export function VirtualKeyboard({ onKeyPress, getStatus, disabled = false, letters = getAlphabet() }: VirtualKeyboardProps) {
+  // Quitar las teclas que no cuentan en esta sala y añadir una fila de vocales con tilde si cuentan
+  const rows = [...keyboardLayout, ACCENTED_LETTERS]
+    .map((row) => row.filter((letter) => letters.includes(letter)))
+    .filter((row) => row.length > 0)
+
   return (
     <div className="flex flex-col items-center space-y-1 sm:space-y-2 p-2 sm:p-4 bg-muted/30 rounded-2xl sm:rounded-3xl shadow-inner border border-border">
-      {keyboardLayout.map((row, rowIndex) => (
+      {rows.map((row, rowIndex) => (
         <div key={rowIndex} className="flex space-x-0.5 sm:space-x-1">
           {row.map((letter) => {
             const status = getStatus(letter)
@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react"
+
+// Segundos que faltan para un plazo guardado por el servidor, o null si no hay plazo
+export function useCountdown(deadline: string | null | undefined) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!deadline) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [deadline])
+
+  if (!deadline) {
+    return null
+  }
+  return Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000))
+}
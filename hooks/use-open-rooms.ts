@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react"
+import { getOpenRooms } from "@/app/actions"
+import { createBrowserClient } from "@/lib/supabase"
+import { type OpenRoom, isOpenRoom } from "@/lib/lobby"
+
+// Salas públicas que esperan jugadores. Se vuelven a pedir al crear o borrar una sala
+// pública y cuando una sala entra o sale de la lista o cambian sus plazas; las jugadas
+// y los plazos de las partidas en curso no afectan a la lista.
+export function useOpenRooms() {
+  const [openRooms, setOpenRooms] = useState<OpenRoom[]>([])
+  const openRoomsRef = useRef(openRooms)
+  openRoomsRef.current = openRooms
+
+  useEffect(() => {
+    const supabase = createBrowserClient()
+    let isMounted = true
+
+    const refresh = () =>
+      getOpenRooms().then((rooms) => {
+        if (isMounted) {
+          setOpenRooms(rooms)
+        }
+      })
+
+    refresh()
+
+    const channel = supabase
+      .channel("open_rooms")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "rooms", filter: "is_public=eq.true" }, refresh)
+      // Los DELETE solo traen el id, así que no se pueden filtrar por is_public
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "rooms" }, (payload) => {
+        if (openRoomsRef.current.some((openRoom) => openRoom.id === (payload.old as any).id)) {
+          refresh()
+        }
+      })
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "rooms", filter: "is_public=eq.true" },
+        (payload) => {
+          const room = payload.new as any
+          const listed = openRoomsRef.current.find((openRoom) => openRoom.id === room.id)
+          if (isOpenRoom(room) !== !!listed || (listed && listed.playerCount !== room.player_count)) {
+            refresh()
+          }
+        },
+      )
+      .subscribe()
+
+    return () => {
+      isMounted = false
+      supabase.removeChannel(channel)
+    }
+  }, [])
+
+  return openRooms
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react"
+
+const STORAGE_KEY = "hangman-practice-streak"
+
+export interface PracticeStreak {
+  current: number
+  best: number
+  played: number
+  won: number
+}
+
+const EMPTY_STREAK: PracticeStreak = { current: 0, best: 0, played: 0, won: 0 }
+
+// Racha del modo práctica, guardada solo en este navegador
+export function usePracticeStreak() {
+  const [streak, setStreak] = useState<PracticeStreak>(EMPTY_STREAK)
+
+  // localStorage solo existe en el cliente, así que se lee después del primer render
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (stored) {
+        setStreak({ ...EMPTY_STREAK, ...JSON.parse(stored) })
+      }
+    } catch (error) {
+      console.error("Error reading practice streak:", error)
+    }
+  }, [])
+
+  const recordResult = useCallback((won: boolean) => {
+    setStreak((prev) => {
+      const current = won ? prev.current + 1 : 0
+      const next = {
+        current,
+        best: Math.max(prev.best, current),
+        played: prev.played + 1,
+        won: prev.won + (won ? 1 : 0),
+      }
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      } catch (error) {
+        console.error("Error saving practice streak:", error)
+      }
+      return next
+    })
+  }, [])
+
+  return { streak, recordResult }
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react"
+import { getRaceProgressList } from "@/app/actions"
+import { createBrowserClient } from "@/lib/supabase"
+import type { RaceProgress } from "@/lib/race"
+
+// Progreso de cada tablero en una carrera, actualizado con cada jugada
+export function useRaceProgress(roomId: string) {
+  const [progress, setProgress] = useState<RaceProgress[]>([])
+
+  useEffect(() => {
+    const supabase = createBrowserClient()
+    let isMounted = true
+
+    const refresh = () =>
+      getRaceProgressList(roomId).then((data) => {
+        if (isMounted) {
+          setProgress(data)
+        }
+      })
+
+    refresh()
+
+    const channel = supabase
+      .channel(`race_progress:${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "race_progress", filter: `room_id=eq.${roomId}` },
+        refresh,
+      )
+      .subscribe()
+
+    return () => {
+      isMounted = false
+      supabase.removeChannel(channel)
+    }
+  }, [roomId])
+
+  return progress
+}
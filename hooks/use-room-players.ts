@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react"
+import { getRoomPlayers } from "@/app/actions"
+import { createBrowserClient } from "@/lib/supabase"
+import type { RoomPlayer } from "@/lib/players"
+
+// Jugadores de la sala en orden de asiento, actualizados cuando alguien entra o sale
+export function useRoomPlayers(roomId: string, initialPlayers: RoomPlayer[] = []) {
+  const [players, setPlayers] = useState<RoomPlayer[]>(initialPlayers)
+
+  useEffect(() => {
+    const supabase = createBrowserClient()
+    let isMounted = true
+
+    // Los eventos de room_players no traen el nombre de usuario, así que se vuelve a pedir la lista
+    const refresh = () =>
+      getRoomPlayers(roomId).then((data) => {
+        if (isMounted) {
+          setPlayers(data)
+        }
+      })
+
+    refresh()
+
+    const channel = supabase
+      .channel(`room_players:${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "room_players", filter: `room_id=eq.${roomId}` },
+        refresh,
+      )
+      .subscribe()
+
+    return () => {
+      isMounted = false
+      supabase.removeChannel(channel)
+    }
+  }, [roomId])
+
+  return players
+}
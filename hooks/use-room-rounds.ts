@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react"
+import { getRoomRounds } from "@/app/actions"
+import { createBrowserClient } from "@/lib/supabase"
+import type { RoundResult } from "@/lib/stats"
+
+// Historial de rondas de la sala, actualizado en tiempo real al terminar cada ronda
+export function useRoomRounds(roomId: string) {
+  const [rounds, setRounds] = useState<RoundResult[]>([])
+
+  useEffect(() => {
+    const supabase = createBrowserClient()
+    let isMounted = true
+
+    getRoomRounds(roomId).then((data) => {
+      if (isMounted) {
+        setRounds(data as RoundResult[])
+      }
+    })
+
+    const channel = supabase
+      .channel(`room_rounds:${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "rounds", filter: `room_id=eq.${roomId}` },
+        (payload) => {
+          const newRound = payload.new as RoundResult
+          setRounds((prev) => (prev.some((round) => round.id === newRound.id) ? prev : [...prev, newRound]))
+        },
+      )
+      .subscribe()
+
+    return () => {
+      isMounted = false
+      supabase.removeChannel(channel)
+    }
+  }, [roomId])
+
+  return rounds
+}
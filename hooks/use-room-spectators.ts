@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react"
+import { getSpectatorCount } from "@/app/actions"
+import { createBrowserClient } from "@/lib/supabase"
+
+// Número de espectadores de la sala, actualizado cuando alguien empieza o deja de mirar
+export function useRoomSpectators(roomId: string) {
+  const [spectatorCount, setSpectatorCount] = useState(0)
+
+  useEffect(() => {
+    const supabase = createBrowserClient()
+    let isMounted = true
+
+    const refresh = () =>
+      getSpectatorCount(roomId).then((count) => {
+        if (isMounted) {
+          setSpectatorCount(count)
+        }
+      })
+
+    refresh()
+
+    const channel = supabase
+      .channel(`room_spectators:${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "room_spectators", filter: `room_id=eq.${roomId}` },
+        refresh,
+      )
+      .subscribe()
+
+    return () => {
+      isMounted = false
+      supabase.removeChannel(channel)
+    }
+  }, [roomId])
+
+  return spectatorCount
+}
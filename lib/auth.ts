@@ -0,0 +1,33 @@
+import { createServerClient } from "@supabase/ssr"
+import { cookies } from "next/headers"
+import { supabaseAnonKey, supabaseUrl } from "./supabase"
+
+// Supabase Auth client bound to the request cookies (Server Actions and Route Handlers).
+// Identity always comes from this session, never from a cookie the client can write.
+export async function createAuthClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll()
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+        } catch {
+          // Called from a Server Component, which cannot set cookies; the middleware refreshes the session
+        }
+      },
+    },
+  })
+}
+
+// The signed-in user (with an email account or as an anonymous guest), or null
+export async function getAuthUser() {
+  const supabase = await createAuthClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  return user
+}
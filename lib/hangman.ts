@@ -0,0 +1,204 @@
+// Reglas del ahorcado compartidas entre las server actions y los componentes
+
+export const HIDDEN_LETTER = "_"
+
+// Fallos permitidos por ronda que puede elegir el anfitrión
+export const MISSES_RANGE = { min: 3, max: 12 }
+
+export type RoundStatus = "playing" | "won" | "lost"
+
+// 'round': tiempo total para adivinar la palabra; 'guess': tiempo para cada letra
+export type TimerMode = "none" | "round" | "guess"
+
+export const TIMER_SECONDS_RANGE: Record<Exclude<TimerMode, "none">, { min: number; max: number }> = {
+  round: { min: 30, max: 600 },
+  guess: { min: 5, max: 120 },
+}
+
+export interface RoundRules {
+  maxMisses: number
+  timerMode: TimerMode
+  timerSeconds: number | null
+  countEnye: boolean // si es false, la Ñ cuenta como N
+  countAccents: boolean // si es false, Á cuenta como A, Ü como U, etc.
+  solvePenalty: number // fallos que cuesta intentar resolver y equivocarse
+}
+
+export const DEFAULT_ROUND_RULES: RoundRules = {
+  maxMisses: 6, // Head, Body, 2 Arms, 2 Legs
+  timerMode: "none",
+  timerSeconds: null,
+  countEnye: true,
+  countAccents: false,
+  solvePenalty: 2,
+}
+
+export const SOLVE_PENALTY_RANGE = { min: 1, max: 6 }
+
+// Pistas opcionales de quien establece la palabra; cada una revelada cuesta un fallo
+export const MAX_HINTS = 3
+export const HINT_PENALTY = 1
+export const MAX_HINT_LENGTH = 80
+export const MAX_CATEGORY_LENGTH = 30
+
+export interface WordClues {
+  category?: string
+  hints?: string[]
+}
+
+export const BASE_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("")
+export const ACCENTED_LETTERS = ["Á", "É", "Í", "Ó", "Ú", "Ü"]
+
+// 'timeout': se agotó el tiempo de la letra; 'solve': intento de resolver la palabra completa;
+// 'hint': se reveló una pista
+export type MoveKind = "letter" | "timeout" | "solve" | "hint"
+
+export interface Move {
+  letter: string | null // null en jugadas sin letra (tiempo agotado, resolver, pista)
+  correct: boolean
+  kind?: MoveKind
+  misses?: number // fallos que cuesta la jugada
+}
+
+// Convierte las columnas de la sala en reglas, con los valores por defecto para salas antiguas
+export function getRoomRules(room: any): RoundRules {
+  return {
+    maxMisses: room?.max_misses ?? DEFAULT_ROUND_RULES.maxMisses,
+    timerMode: room?.timer_mode ?? DEFAULT_ROUND_RULES.timerMode,
+    timerSeconds: room?.timer_seconds ?? DEFAULT_ROUND_RULES.timerSeconds,
+    countEnye: room?.count_enye ?? DEFAULT_ROUND_RULES.countEnye,
+    countAccents: room?.count_accents ?? DEFAULT_ROUND_RULES.countAccents,
+    solvePenalty: room?.solve_penalty ?? DEFAULT_ROUND_RULES.solvePenalty,
+  }
+}
+
+export function isValidRoundRules(rules: RoundRules) {
+  if (
+    !Number.isInteger(rules.maxMisses) ||
+    rules.maxMisses < MISSES_RANGE.min ||
+    rules.maxMisses > MISSES_RANGE.max ||
+    !Number.isInteger(rules.solvePenalty) ||
+    rules.solvePenalty < SOLVE_PENALTY_RANGE.min ||
+    rules.solvePenalty > SOLVE_PENALTY_RANGE.max
+  ) {
+    return false
+  }
+  if (rules.timerMode === "none") {
+    return true
+  }
+  const range = TIMER_SECONDS_RANGE[rules.timerMode]
+  return (
+    range !== undefined &&
+    rules.timerSeconds !== null &&
+    Number.isInteger(rules.timerSeconds) &&
+    rules.timerSeconds >= range.min &&
+    rules.timerSeconds <= range.max
+  )
+}
+
+// Letras que se pueden pulsar con estas reglas
+export function getAlphabet(rules: RoundRules = DEFAULT_ROUND_RULES) {
+  return [...BASE_LETTERS, ...(rules.countEnye ? ["Ñ"] : []), ...(rules.countAccents ? ACCENTED_LETTERS : [])]
+}
+
+// Letra con la que se adivina un carácter de la palabra, o null si no es una letra
+export function normalizeLetter(char: string, rules: RoundRules = DEFAULT_ROUND_RULES) {
+  const upper = char.toUpperCase()
+  if (BASE_LETTERS.includes(upper)) {
+    return upper
+  }
+  if (upper === "Ñ") {
+    return rules.countEnye ? "Ñ" : "N"
+  }
+  if (rules.countAccents && ACCENTED_LETTERS.includes(upper)) {
+    return upper
+  }
+  // Quitar tildes y diéresis: "É" -> "E"
+  const base = upper.normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+  return base.length === 1 && BASE_LETTERS.includes(base) ? base : null
+}
+
+export const isGuessableLetter = (letter: string, rules: RoundRules = DEFAULT_ROUND_RULES) =>
+  getAlphabet(rules).includes(letter)
+
+// Solo las letras cuentan para adivinar (sin espacios ni caracteres especiales)
+export function getLettersOnly(word: string, rules: RoundRules = DEFAULT_ROUND_RULES) {
+  return word
+    .split("")
+    .map((char) => normalizeLetter(char, rules))
+    .filter((letter): letter is string => letter !== null)
+}
+
+// Palabra o frase reducida a sus letras, para comparar un intento de resolver con la palabra
+export function normalizePhrase(phrase: string, rules: RoundRules = DEFAULT_ROUND_RULES) {
+  return getLettersOnly(phrase.toUpperCase(), rules).join("")
+}
+
+export function getUniqueLetters(word: string, rules: RoundRules = DEFAULT_ROUND_RULES) {
+  return new Set(getLettersOnly(word, rules))
+}
+
+// Oculta las letras no adivinadas; espacios y signos siempre se muestran
+export function maskWord(word: string, guessedLetters: Iterable<string>, rules: RoundRules = DEFAULT_ROUND_RULES) {
+  const guessed = new Set(guessedLetters)
+  return word
+    .split("")
+    .map((char) => {
+      const letter = normalizeLetter(char, rules)
+      return letter !== null && !guessed.has(letter) ? HIDDEN_LETTER : char
+    })
+    .join("")
+}
+
+// Limpia la categoría y las pistas; devuelve null si no son válidas
+export function sanitizeClues(clues: WordClues) {
+  const category = clues.category?.trim() || null
+  const hints = (clues.hints ?? []).map((hint) => hint.trim()).filter(Boolean)
+
+  if (
+    (category && category.length > MAX_CATEGORY_LENGTH) ||
+    hints.length > MAX_HINTS ||
+    hints.some((hint) => hint.length > MAX_HINT_LENGTH)
+  ) {
+    return null
+  }
+  return { category, hints }
+}
+
+export function countMisses(moves: Move[]) {
+  return moves.reduce((total, move) => total + (move.misses ?? (move.correct ? 0 : 1)), 0)
+}
+
+export function getRoundStatus(word: string, moves: Move[], rules: RoundRules = DEFAULT_ROUND_RULES): RoundStatus {
+  const uniqueLetters = getUniqueLetters(word, rules)
+  const correctGuessed = new Set(moves.filter((move) => move.correct).map((move) => move.letter))
+  const misses = countMisses(moves)
+  const solved = moves.some((move) => move.kind === "solve" && move.correct)
+
+  if (solved || [...uniqueLetters].every((letter) => correctGuessed.has(letter))) {
+    return "won"
+  }
+  if (misses >= rules.maxMisses) {
+    return "lost"
+  }
+  return "playing"
+}
+
+export function isDeadlinePassed(deadline: string | null | undefined, now = Date.now()) {
+  return !!deadline && new Date(deadline).getTime() <= now
+}
+
+export function describeRoundRules(rules: RoundRules) {
+  const parts = [`${rules.maxMisses} fallos`]
+  if (rules.timerMode === "round") {
+    parts.push(`${rules.timerSeconds}s por ronda`)
+  } else if (rules.timerMode === "guess") {
+    parts.push(`${rules.timerSeconds}s por letra`)
+  }
+  parts.push(rules.countEnye ? "con Ñ" : "Ñ = N")
+  if (rules.countAccents) {
+    parts.push("con tildes")
+  }
+  parts.push(`resolver mal: -${rules.solvePenalty}`)
+  return parts.join(" · ")
+}
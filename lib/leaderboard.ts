@@ -0,0 +1,55 @@
+// Clasificaciones globales calculadas a partir del historial de rondas (tabla "rounds").
+// Solo cuentan las rondas como adivinador: son las que se ganan o se pierden.
+// Las del modo carrera, que solo guardan al ganador, y las de varios adivinadores,
+// que solo guardan al último en jugar, se quedan fuera.
+// El cálculo y la paginación los hace la función get_leaderboard (scripts/025).
+
+export type LeaderboardPeriod = "day" | "week" | "all"
+export type LeaderboardMetric = "wins" | "win_rate" | "average_misses"
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ["day", "week", "all"]
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ["wins", "win_rate", "average_misses"]
+
+export const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  day: "Hoy",
+  week: "Esta semana",
+  all: "Siempre",
+}
+
+export const METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  wins: "Victorias",
+  win_rate: "% de aciertos",
+  average_misses: "Menos fallos",
+}
+
+// Con pocas rondas el porcentaje y la media no dicen nada: hace falta un mínimo
+export const MIN_ROUNDS_FOR_RATE = 5
+export const LEADERBOARD_PAGE_SIZE = 10
+
+export interface LeaderboardEntry {
+  userId: string
+  rank: number
+  roundsPlayed: number
+  roundsWon: number
+  winRate: number
+  averageMisses: number
+}
+
+export const isLeaderboardPeriod = (value: unknown): value is LeaderboardPeriod =>
+  LEADERBOARD_PERIODS.includes(value as LeaderboardPeriod)
+
+export const isLeaderboardMetric = (value: unknown): value is LeaderboardMetric =>
+  LEADERBOARD_METRICS.includes(value as LeaderboardMetric)
+
+// Inicio del periodo: medianoche de hoy o el lunes de esta semana (hora del servidor)
+export function getPeriodStart(period: LeaderboardPeriod, now = new Date()) {
+  if (period === "all") {
+    return null
+  }
+  const start = new Date(now)
+  start.setHours(0, 0, 0, 0)
+  if (period === "week") {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  }
+  return start
+}
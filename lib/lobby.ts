@@ -0,0 +1,21 @@
+// Sala de espera pública: salas abiertas de la portada y partida rápida.
+
+import type { MatchFormat } from "./match"
+
+// Como mucho se listan las salas abiertas más recientes
+export const LOBBY_SIZE = 20
+
+export interface OpenRoom {
+  id: string
+  hostUsername: string | null
+  playerCount: number
+  maxPlayers: number
+  matchFormat: MatchFormat
+  matchTarget: number | null
+  quickMatch: boolean
+}
+
+// Abierta: pública, esperando la primera palabra y con sitio libre
+export function isOpenRoom(room: { is_public: boolean; state: string; player_count: number; max_players: number }) {
+  return room.is_public && room.state === "waiting" && room.player_count < room.max_players
+}
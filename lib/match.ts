@@ -0,0 +1,82 @@
+// Partidas al mejor de N rondas o al primero en llegar a N puntos.
+// Cada ronda da un punto: al adivinador si la adivina, a quien puso la palabra si no.
+// En "team_rounds" cada equipo adivina N rondas y se cuentan fallos (ver lib/teams.ts).
+
+import { TEAM_ROUNDS_RANGE } from "./teams"
+
+export type MatchFormat = "endless" | "best_of" | "first_to" | "team_rounds"
+
+export const BEST_OF_OPTIONS = [3, 5, 7]
+export const MIN_FIRST_TO_POINTS = 1
+export const MAX_FIRST_TO_POINTS = 20
+
+export interface MatchRound {
+  setter_user_id: string | null
+  guesser_user_id: string | null
+  result: "won" | "lost"
+  match_number: number
+}
+
+export function isValidMatchFormat(format: string, target: number | null) {
+  switch (format) {
+    case "endless":
+      return true
+    case "best_of":
+      return target !== null && BEST_OF_OPTIONS.includes(target)
+    case "first_to":
+      return target !== null && Number.isInteger(target) && target >= MIN_FIRST_TO_POINTS && target <= MAX_FIRST_TO_POINTS
+    case "team_rounds":
+      return target !== null && Number.isInteger(target) && target >= TEAM_ROUNDS_RANGE.min && target <= TEAM_ROUNDS_RANGE.max
+    default:
+      return false
+  }
+}
+
+// Puntos necesarios para ganar la partida, o null en modo sin fin
+export function getPointsToWin(format: MatchFormat, target: number | null) {
+  if (format === "best_of" && target) {
+    return Math.floor(target / 2) + 1
+  }
+  if (format === "first_to" && target) {
+    return target
+  }
+  return null
+}
+
+export function getRoundWinnerId(round: MatchRound) {
+  return round.result === "won" ? round.guesser_user_id : round.setter_user_id
+}
+
+export function getMatchScores(rounds: MatchRound[], matchNumber: number) {
+  const scores: Record<string, number> = {}
+  rounds
+    .filter((round) => round.match_number === matchNumber)
+    .forEach((round) => {
+      const winnerId = getRoundWinnerId(round)
+      if (winnerId) {
+        scores[winnerId] = (scores[winnerId] ?? 0) + 1
+      }
+    })
+  return scores
+}
+
+export function getMatchWinnerId(scores: Record<string, number>, format: MatchFormat, target: number | null) {
+  const pointsToWin = getPointsToWin(format, target)
+  if (pointsToWin === null) {
+    return null
+  }
+  return Object.keys(scores).find((userId) => scores[userId] >= pointsToWin) ?? null
+}
+
+export function describeMatchFormat(format: MatchFormat, target: number | null) {
+  if (format === "best_of") {
+    return `Al mejor de ${target}`
+  }
+  if (format === "first_to") {
+    return `Primero en llegar a ${target} ${target === 1 ? "punto" : "puntos"}`
+  }
+  if (format === "team_rounds") {
+    return `Equipos · ${target} ${target === 1 ? "ronda" : "rondas"} por equipo`
+  }
+  return "Rondas libres"
+}
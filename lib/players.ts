@@ -0,0 +1,84 @@
+// Jugadores de una sala (tabla "room_players") y rotación de turnos.
+// Una persona pone la palabra y el resto se turna para adivinar letra a letra.
+
+import type { TeamId } from "./teams"
+
+export const MIN_PLAYERS = 2
+export const MAX_PLAYERS = 8
+
+export interface RoomPlayer {
+  user_id: string
+  seat: number // orden de llegada; marca el orden de los turnos
+  username?: string
+  team?: TeamId | null // solo en el modo por equipos
+}
+
+export type PlayerRole = "setter" | "guessing" | "guesser"
+
+export function isValidMaxPlayers(maxPlayers: number) {
+  return Number.isInteger(maxPlayers) && maxPlayers >= MIN_PLAYERS && maxPlayers <= MAX_PLAYERS
+}
+
+const bySeat = (players: RoomPlayer[]) => [...players].sort((a, b) => a.seat - b.seat)
+
+// Siguiente jugador en el orden de asientos después de afterUserId, sin contar excludeId.
+// Si afterUserId ya no está en la sala, empieza por el primer asiento.
+export function getNextPlayerId(players: RoomPlayer[], afterUserId: string | null, excludeId: string | null = null) {
+  const ordered = bySeat(players)
+  const start = ordered.findIndex((player) => player.user_id === afterUserId)
+
+  for (let offset = 1; offset <= ordered.length; offset++) {
+    const candidate = ordered[(start + offset) % ordered.length]
+    if (candidate.user_id !== afterUserId && candidate.user_id !== excludeId) {
+      return candidate.user_id
+    }
+  }
+  return null
+}
+
+// Quienes adivinan esta ronda: todos menos quien puso la palabra (o su equipo).
+// Con una palabra del banco nadie la conoce, así que adivinan todos.
+export function getGuesserIds(players: RoomPlayer[], setterId: string | null, wordSource = "player") {
+  const setterTeam = players.find((player) => player.user_id === setterId)?.team ?? null
+  return bySeat(players)
+    .filter(
+      (player) =>
+        wordSource === "bank" || (setterTeam ? player.team !== setterTeam : player.user_id !== setterId),
+    )
+    .map((player) => player.user_id)
+}
+
+// Siguiente adivinador en orden de asientos después de afterUserId, que puede no
+// ser adivinador (al empezar la ronda se pasa quien puso la palabra), sin contar excludeId.
+// Devuelve el mismo jugador si adivina solo.
+export function getNextGuesserId(
+  players: RoomPlayer[],
+  afterUserId: string | null,
+  setterId: string | null,
+  wordSource = "player",
+  excludeId: string | null = null,
+) {
+  const guesserIds = getGuesserIds(players, setterId, wordSource)
+  const guessers = bySeat(players).filter(
+    (player) => guesserIds.includes(player.user_id) && player.user_id !== excludeId,
+  )
+  if (guessers.length === 0) {
+    return null
+  }
+  const afterSeat = players.find((player) => player.user_id === afterUserId)?.seat ?? -1
+  return (guessers.find((player) => player.seat > afterSeat) ?? guessers[0]).user_id
+}
+
+// En el modo por equipos todo el equipo de quien pone la palabra cuenta como "setter"
+export function getPlayerRole(room: any, userId: string, players: RoomPlayer[] = []): PlayerRole {
+  const team = players.find((player) => player.user_id === userId)?.team
+  const isSetterTeam = !!team && team === players.find((player) => player.user_id === room.word_setter_user_id)?.team
+  if ((room.word_setter_user_id === userId || isSetterTeam) && room.word_source !== "bank") {
+    return "setter"
+  }
+  return room.current_turn_user_id === userId ? "guessing" : "guesser"
+}
+
+export function findUsername(players: RoomPlayer[], userId: string | null) {
+  return players.find((player) => player.user_id === userId)?.username ?? null
+}
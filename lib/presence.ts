@@ -0,0 +1,29 @@
+// Presencia de los jugadores. Los indicadores en línea / ausente / desconectado salen
+// de Realtime presence en el canal de la sala; además cada jugador guarda un latido
+// en "room_presence" para que el servidor compruebe una ausencia antes de aplicar
+// la regla de abandono.
+
+export type PresenceStatus = "online" | "away" | "offline"
+
+// "none": solo se avisa; "forfeit": quien se va pierde su turno (o la ronda, si
+// adivina solo) y, si era el anfitrión, el puesto pasa al siguiente jugador
+export type AbsenceRule = "none" | "forfeit"
+
+export const PRESENCE_HEARTBEAT_SECONDS = 20
+
+// Margen para volver antes de aplicar la regla. Los navegadores ralentizan los
+// temporizadores de las pestañas en segundo plano hasta una vez por minuto.
+export const ABSENCE_GRACE_SECONDS = 90
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: "En línea",
+  away: "Ausente",
+  offline: "Desconectado",
+}
+
+export const isAbsenceRule = (value: unknown): value is AbsenceRule => value === "none" || value === "forfeit"
+
+// Sin latido reciente (o sin ninguno) el jugador cuenta como ausente
+export function isAbsent(lastSeenAt: string | null, now = Date.now()) {
+  return !lastSeenAt || now - new Date(lastSeenAt).getTime() > ABSENCE_GRACE_SECONDS * 1000
+}
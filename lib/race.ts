@@ -0,0 +1,48 @@
+// Modo carrera: una palabra sorpresa del banco y un tablero por jugador.
+// Los rivales solo ven el progreso (letras acertadas y fallos), nunca las letras.
+
+import {
+  type Move,
+  type RoundRules,
+  type RoundStatus,
+  countMisses,
+  getRoundStatus,
+  getUniqueLetters,
+} from "./hangman"
+
+export interface RaceProgress {
+  user_id: string
+  revealed_letters: number
+  total_letters: number
+  misses: number
+  status: RoundStatus
+}
+
+export const isRaceMode = (room: any) => room?.round_mode === "race"
+
+// Progreso público de un tablero a partir de sus jugadas
+export function getRaceProgress(word: string, moves: Move[], rules: RoundRules) {
+  const uniqueLetters = getUniqueLetters(word, rules)
+  const status = getRoundStatus(word, moves, rules)
+  const revealed = moves.filter((move) => move.correct && move.letter && uniqueLetters.has(move.letter)).length
+
+  return {
+    // Quien resuelve la palabra completa la tiene entera aunque no pidiera todas las letras
+    revealed_letters: status === "won" ? uniqueLetters.size : revealed,
+    total_letters: uniqueLetters.size,
+    misses: countMisses(moves),
+    status,
+  }
+}
+
+// La carrera termina cuando alguien resuelve su tablero o cuando ya nadie puede hacerlo
+export function getRaceOutcome(progress: RaceProgress[]): { status: Exclude<RoundStatus, "playing">; winnerId: string | null } | null {
+  const winner = progress.find((entry) => entry.status === "won")
+  if (winner) {
+    return { status: "won", winnerId: winner.user_id }
+  }
+  if (progress.length > 0 && progress.every((entry) => entry.status === "lost")) {
+    return { status: "lost", winnerId: null }
+  }
+  return null
+}
@@ -0,0 +1,23 @@
+// Códigos cortos de sala para dictarlos por el chat de voz o escribirlos a mano.
+// Se guardan junto al UUID de la sala, que sigue siendo su identificador interno.
+
+// Sin I, L, O, 0 ni 1, que se confunden al leerlos o dictarlos
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789"
+export const ROOM_CODE_LENGTH = 6
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const ROOM_CODE_PATTERN = new RegExp(`^[${ROOM_CODE_ALPHABET}]{${ROOM_CODE_LENGTH}}$`)
+
+export function generateRoomCode() {
+  const values = crypto.getRandomValues(new Uint32Array(ROOM_CODE_LENGTH))
+  return Array.from(values, (value) => ROOM_CODE_ALPHABET[value % ROOM_CODE_ALPHABET.length]).join("")
+}
+
+export const isRoomUuid = (value: string) => UUID_PATTERN.test(value)
+
+// Acepta minúsculas, espacios y guiones, como "abc-123"
+export function normalizeRoomCode(value: string) {
+  return value.toUpperCase().replace(/[\s-]/g, "")
+}
+
+export const isRoomCode = (value: string) => ROOM_CODE_PATTERN.test(normalizeRoomCode(value))
@@ -0,0 +1,154 @@
+// Estadísticas calculadas a partir del historial de rondas (tabla "rounds")
+
+import type { TeamId } from "./teams"
+
+export interface RoundResult {
+  id: string
+  word: string
+  setter_user_id: string | null
+  guesser_user_id: string | null
+  misses: number
+  result: "won" | "lost"
+  finished_at: string
+  duration_seconds: number | null
+  match_number: number
+  guessing_team?: TeamId | null
+}
+
+export interface PlayerScore {
+  roundsPlayed: number // como adivinador
+  roundsWon: number // como adivinador
+  averageMisses: number | null
+  fastestSolveSeconds: number | null
+}
+
+export function getPlayerScore(rounds: RoundResult[], userId: string): PlayerScore {
+  const guessed = rounds.filter((round) => round.guesser_user_id === userId)
+  const won = guessed.filter((round) => round.result === "won")
+  const solveTimes = won
+    .map((round) => round.duration_seconds)
+    .filter((seconds): seconds is number => seconds !== null)
+
+  return {
+    roundsPlayed: guessed.length,
+    roundsWon: won.length,
+    averageMisses: guessed.length
+      ? guessed.reduce((total, round) => total + round.misses, 0) / guessed.length
+      : null,
+    fastestSolveSeconds: solveTimes.length ? Math.min(...solveTimes) : null,
+  }
+}
+
+// Ronda del historial de un jugador, de cualquier sala
+export interface ProfileRound extends Omit<RoundResult, "id" | "guessing_team"> {
+  match_key: string // partida (sala y número de partida) sin revelar la sala
+  round_mode: "turns" | "race"
+  guesser_count: number
+}
+
+export interface OpponentCount {
+  userId: string
+  rounds: number
+}
+
+export interface HardWord {
+  word: string
+  misses: number
+  result: "won" | "lost"
+}
+
+export interface MonthlyResults {
+  month: string // "2026-10"
+  won: number
+  lost: number
+}
+
+export interface ProfileStats {
+  gamesPlayed: number
+  guessedRounds: number
+  guesserWinRate: number | null
+  setRounds: number
+  setterWinRate: number | null // rondas en las que el adivinador no acertó su palabra
+  averageMisses: number | null
+  longestStreak: number
+  favoriteOpponents: OpponentCount[]
+  hardestWords: HardWord[]
+  monthlyResults: MonthlyResults[]
+}
+
+const TOP_OPPONENTS = 3
+const TOP_HARD_WORDS = 5
+
+const byFinishedAt = (rounds: ProfileRound[]) =>
+  [...rounds].sort((a, b) => new Date(a.finished_at).getTime() - new Date(b.finished_at).getTime())
+
+// Racha más larga de rondas acertadas seguidas como adivinador
+function getLongestStreak(guessed: ProfileRound[]) {
+  let longest = 0
+  let current = 0
+  byFinishedAt(guessed).forEach((round) => {
+    current = round.result === "won" ? current + 1 : 0
+    longest = Math.max(longest, current)
+  })
+  return longest
+}
+
+// Rivales con los que más rondas se han jugado, poniendo o adivinando la palabra
+function getFavoriteOpponents(rounds: ProfileRound[], userId: string): OpponentCount[] {
+  const counts = new Map<string, number>()
+  rounds.forEach((round) => {
+    const opponentId = round.guesser_user_id === userId ? round.setter_user_id : round.guesser_user_id
+    if (opponentId && opponentId !== userId) {
+      counts.set(opponentId, (counts.get(opponentId) ?? 0) + 1)
+    }
+  })
+  return [...counts.entries()]
+    .map(([opponentId, count]) => ({ userId: opponentId, rounds: count }))
+    .sort((a, b) => b.rounds - a.rounds)
+    .slice(0, TOP_OPPONENTS)
+}
+
+// Primero las palabras que no se acertaron y, dentro de cada grupo, las de más fallos
+function getHardestWords(guessed: ProfileRound[]): HardWord[] {
+  return guessed
+    .map((round) => ({ word: round.word, misses: round.misses, result: round.result }))
+    .sort((a, b) => (a.result === b.result ? b.misses - a.misses : a.result === "lost" ? -1 : 1))
+    .slice(0, TOP_HARD_WORDS)
+}
+
+function getMonthlyResults(guessed: ProfileRound[]): MonthlyResults[] {
+  const months = new Map<string, MonthlyResults>()
+  byFinishedAt(guessed).forEach((round) => {
+    const month = round.finished_at.slice(0, 7)
+    const entry = months.get(month) ?? { month, won: 0, lost: 0 }
+    entry[round.result] += 1
+    months.set(month, entry)
+  })
+  return [...months.values()]
+}
+
+// Estadísticas de toda la vida de un jugador. Las rondas del modo carrera no tienen
+// un único adivinador y no se cuentan; las de varios adivinadores (equipos o salas de
+// más de dos) solo cuentan para quien puso la palabra.
+export function getProfileStats(allRounds: ProfileRound[], userId: string): ProfileStats {
+  const rounds = allRounds.filter((round) => round.round_mode !== "race")
+  const guessed = rounds.filter((round) => round.guesser_user_id === userId && round.guesser_count === 1)
+  const set = rounds.filter((round) => round.setter_user_id === userId)
+  const guesserWins = guessed.filter((round) => round.result === "won").length
+  const setterWins = set.filter((round) => round.result === "lost").length
+
+  return {
+    gamesPlayed: new Set(rounds.map((round) => round.match_key)).size,
+    guessedRounds: guessed.length,
+    guesserWinRate: guessed.length ? guesserWins / guessed.length : null,
+    setRounds: set.length,
+    setterWinRate: set.length ? setterWins / set.length : null,
+    averageMisses: guessed.length
+      ? guessed.reduce((total, round) => total + round.misses, 0) / guessed.length
+      : null,
+    longestStreak: getLongestStreak(guessed),
+    favoriteOpponents: getFavoriteOpponents(rounds, userId),
+    hardestWords: getHardestWords(guessed),
+    monthlyResults: getMonthlyResults(guessed),
+  }
+}
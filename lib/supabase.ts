@@ -1,24 +1,35 @@
 import { createClient } from "@supabase/supabase-js"
+import { createBrowserClient as createSsrBrowserClient } from "@supabase/ssr"
 
 // Ensure these are set in your Vercel project environment variables
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+export const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+export const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 if (!supabaseUrl || !supabaseAnonKey) {
   console.error("Supabase URL or Anon Key is not set. Please check your environment variables.")
 }
 
-// Server-side client (for Server Actions)
+// Server-side client (for Server Actions). It uses the service role key, which bypasses
+// Row Level Security. It is only for what the policies deliberately leave to the server:
+// game state writes (rooms, moves, rounds...), the secret word in room_secrets and the
+// membership checks themselves. The actions check who is calling, and that they belong
+// to the room, before using it. Reads made on behalf of the user, and chat messages,
+// go through createAuthClient() in lib/auth.ts instead.
 export const createServerClient = () => {
-  return createClient(supabaseUrl, supabaseAnonKey)
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set. Server actions need it to write past Row Level Security.")
+  }
+  return createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false, autoRefreshToken: false } })
 }
 
-// Client-side client (singleton pattern)
+// Client-side client (singleton pattern). It keeps the Supabase Auth session in
+// cookies, so the server actions see the same signed-in user.
 let supabaseClient: ReturnType<typeof createClient>
 
 export const createBrowserClient = () => {
   if (!supabaseClient) {
-    supabaseClient = createClient(supabaseUrl, supabaseAnonKey)
+    supabaseClient = createSsrBrowserClient(supabaseUrl, supabaseAnonKey) as ReturnType<typeof createClient>
   }
   return supabaseClient
 }
@@ -0,0 +1,99 @@
+// Modo por equipos: dos equipos se turnan para ponerse palabras y gana el que
+// acumula menos fallos en la partida. Los jugadores de cada equipo comparten
+// teclado y adivinan por turnos, letra a letra.
+
+import type { RoomPlayer } from "./players"
+
+export type TeamId = "a" | "b"
+
+export const TEAMS: TeamId[] = ["a", "b"]
+
+export const TEAM_LABELS: Record<TeamId, string> = {
+  a: "Equipo Rojo",
+  b: "Equipo Azul",
+}
+
+// Jugadores por equipo (2v2 a 4v4) y rondas que adivina cada equipo por partida
+export const TEAM_SIZE_RANGE = { min: 2, max: 4 }
+export const TEAM_ROUNDS_RANGE = { min: 1, max: 5 }
+
+export interface TeamRound {
+  guessing_team?: TeamId | null
+  misses: number
+  result: "won" | "lost"
+  match_number: number
+}
+
+export const isTeamMode = (room: any) => room?.match_format === "team_rounds"
+
+export const getOtherTeam = (team: TeamId): TeamId => (team === "a" ? "b" : "a")
+
+export function isValidTeamRoomSize(maxPlayers: number) {
+  return maxPlayers % 2 === 0 && maxPlayers >= TEAM_SIZE_RANGE.min * 2 && maxPlayers <= TEAM_SIZE_RANGE.max * 2
+}
+
+export function getTeamMembers(players: RoomPlayer[], team: TeamId) {
+  return players.filter((player) => player.team === team).sort((a, b) => a.seat - b.seat)
+}
+
+export function getPlayerTeam(players: RoomPlayer[], userId: string | null) {
+  return players.find((player) => player.user_id === userId)?.team ?? null
+}
+
+// Quien entra va al equipo con menos jugadores
+export function pickTeamForNewPlayer(players: RoomPlayer[]): TeamId {
+  return getTeamMembers(players, "b").length < getTeamMembers(players, "a").length ? "b" : "a"
+}
+
+export function areTeamsReady(players: RoomPlayer[]) {
+  return TEAMS.every((team) => getTeamMembers(players, team).length >= TEAM_SIZE_RANGE.min)
+}
+
+// La palabra pasa al otro equipo y, dentro de cada equipo, rota entre sus miembros:
+// Rojo 1 -> Azul 1 -> Rojo 2 -> Azul 2 -> ...
+export function getNextTeamSetterId(players: RoomPlayer[], setterId: string | null) {
+  const team = getPlayerTeam(players, setterId)
+  if (!team) {
+    return getTeamMembers(players, "a")[0]?.user_id ?? null
+  }
+  const ownMembers = getTeamMembers(players, team)
+  const otherMembers = getTeamMembers(players, getOtherTeam(team))
+  if (otherMembers.length === 0) {
+    return null
+  }
+
+  const index = Math.max(0, ownMembers.findIndex((player) => player.user_id === setterId))
+  const nextIndex = team === "a" ? index : index + 1
+  return otherMembers[nextIndex % otherMembers.length].user_id
+}
+
+// Una ronda perdida cuenta como todos los fallos permitidos, aunque se perdiera por tiempo
+export function getTeamMisses(rounds: TeamRound[], matchNumber: number, maxMisses: number) {
+  const misses: Record<TeamId, number> = { a: 0, b: 0 }
+  const roundsPlayed: Record<TeamId, number> = { a: 0, b: 0 }
+  rounds
+    .filter((round) => round.match_number === matchNumber && round.guessing_team)
+    .forEach((round) => {
+      const team = round.guessing_team as TeamId
+      misses[team] += round.result === "lost" ? Math.max(round.misses, maxMisses) : round.misses
+      roundsPlayed[team] += 1
+    })
+  return { misses, roundsPlayed }
+}
+
+// Equipo ganador cuando los dos han adivinado sus rondas, "draw" si empatan, o null si sigue la partida
+export function getTeamMatchWinner(
+  rounds: TeamRound[],
+  matchNumber: number,
+  roundsPerTeam: number | null,
+  maxMisses: number,
+): TeamId | "draw" | null {
+  const { misses, roundsPlayed } = getTeamMisses(rounds, matchNumber, maxMisses)
+  if (!roundsPerTeam || TEAMS.some((team) => roundsPlayed[team] < roundsPerTeam)) {
+    return null
+  }
+  if (misses.a === misses.b) {
+    return "draw"
+  }
+  return misses.a < misses.b ? "a" : "b"
+}
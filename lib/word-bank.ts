@@ -0,0 +1,168 @@
+// Banco de palabras y frases en español para las rondas con palabra aleatoria
+
+export type Difficulty = "facil" | "media" | "dificil"
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  facil: "Fácil",
+  media: "Media",
+  dificil: "Difícil",
+}
+
+export interface WordBankEntry {
+  word: string
+  difficulty: Difficulty
+}
+
+export interface WordBankCategory {
+  id: string
+  label: string
+  entries: WordBankEntry[]
+}
+
+export const WORD_BANK: WordBankCategory[] = [
+  {
+    id: "animales",
+    label: "Animales",
+    entries: [
+      { word: "GATO", difficulty: "facil" },
+      { word: "PERRO", difficulty: "facil" },
+      { word: "VACA", difficulty: "facil" },
+      { word: "LEÓN", difficulty: "facil" },
+      { word: "JIRAFA", difficulty: "media" },
+      { word: "ELEFANTE", difficulty: "media" },
+      { word: "PINGÜINO", difficulty: "media" },
+      { word: "MURCIÉLAGO", difficulty: "media" },
+      { word: "ORNITORRINCO", difficulty: "dificil" },
+      { word: "CAMALEÓN", difficulty: "dificil" },
+      { word: "OSO HORMIGUERO", difficulty: "dificil" },
+      { word: "CABALLITO DE MAR", difficulty: "dificil" },
+    ],
+  },
+  {
+    id: "paises",
+    label: "Países",
+    entries: [
+      { word: "PERÚ", difficulty: "facil" },
+      { word: "CHILE", difficulty: "facil" },
+      { word: "ESPAÑA", difficulty: "facil" },
+      { word: "MÉXICO", difficulty: "facil" },
+      { word: "ARGENTINA", difficulty: "media" },
+      { word: "COLOMBIA", difficulty: "media" },
+      { word: "PORTUGAL", difficulty: "media" },
+      { word: "JAPÓN", difficulty: "media" },
+      { word: "NUEVA ZELANDA", difficulty: "dificil" },
+      { word: "KAZAJISTÁN", difficulty: "dificil" },
+      { word: "COSTA DE MARFIL", difficulty: "dificil" },
+      { word: "LIECHTENSTEIN", difficulty: "dificil" },
+    ],
+  },
+  {
+    id: "peliculas",
+    label: "Películas",
+    entries: [
+      { word: "TITANIC", difficulty: "facil" },
+      { word: "SHREK", difficulty: "facil" },
+      { word: "COCO", difficulty: "facil" },
+      { word: "EL REY LEÓN", difficulty: "media" },
+      { word: "TOY STORY", difficulty: "media" },
+      { word: "BUSCANDO A NEMO", difficulty: "media" },
+      { word: "INTENSAMENTE", difficulty: "media" },
+      { word: "EL LABERINTO DEL FAUNO", difficulty: "dificil" },
+      { word: "VOLVER AL FUTURO", difficulty: "dificil" },
+      { word: "EL VIAJE DE CHIHIRO", difficulty: "dificil" },
+    ],
+  },
+  {
+    id: "comida",
+    label: "Comida",
+    entries: [
+      { word: "PAN", difficulty: "facil" },
+      { word: "ARROZ", difficulty: "facil" },
+      { word: "PIZZA", difficulty: "facil" },
+      { word: "TACO", difficulty: "facil" },
+      { word: "CEVICHE", difficulty: "media" },
+      { word: "EMPANADA", difficulty: "media" },
+      { word: "PAELLA", difficulty: "media" },
+      { word: "LOMO SALTADO", difficulty: "media" },
+      { word: "AJÍ DE GALLINA", difficulty: "dificil" },
+      { word: "GAZPACHO", difficulty: "dificil" },
+      { word: "CHILES EN NOGADA", difficulty: "dificil" },
+    ],
+  },
+  {
+    id: "deportes",
+    label: "Deportes",
+    entries: [
+      { word: "FÚTBOL", difficulty: "facil" },
+      { word: "TENIS", difficulty: "facil" },
+      { word: "BOXEO", difficulty: "facil" },
+      { word: "NATACIÓN", difficulty: "media" },
+      { word: "BALONCESTO", difficulty: "media" },
+      { word: "CICLISMO", difficulty: "media" },
+      { word: "ESGRIMA", difficulty: "dificil" },
+      { word: "WATERPOLO", difficulty: "dificil" },
+      { word: "SALTO CON PÉRTIGA", difficulty: "dificil" },
+    ],
+  },
+  {
+    id: "profesiones",
+    label: "Profesiones",
+    entries: [
+      { word: "CHEF", difficulty: "facil" },
+      { word: "MÉDICO", difficulty: "facil" },
+      { word: "PROFESOR", difficulty: "facil" },
+      { word: "BOMBERO", difficulty: "media" },
+      { word: "ARQUITECTA", difficulty: "media" },
+      { word: "PERIODISTA", difficulty: "media" },
+      { word: "OTORRINOLARINGÓLOGO", difficulty: "dificil" },
+      { word: "PALEONTÓLOGA", difficulty: "dificil" },
+      { word: "CONTROLADOR AÉREO", difficulty: "dificil" },
+    ],
+  },
+  {
+    id: "objetos",
+    label: "Objetos de casa",
+    entries: [
+      { word: "MESA", difficulty: "facil" },
+      { word: "SILLA", difficulty: "facil" },
+      { word: "CAMA", difficulty: "facil" },
+      { word: "ESPEJO", difficulty: "media" },
+      { word: "LICUADORA", difficulty: "media" },
+      { word: "ALMOHADA", difficulty: "media" },
+      { word: "ASPIRADORA", difficulty: "dificil" },
+      { word: "MICROONDAS", difficulty: "dificil" },
+      { word: "CONTROL REMOTO", difficulty: "dificil" },
+    ],
+  },
+]
+
+export interface WordBankPick extends WordBankEntry {
+  category: string
+}
+
+// Elige una palabra al azar, opcionalmente filtrando por categoría y dificultad.
+// Devuelve null si ningún elemento cumple los filtros.
+export function pickRandomWord(
+  options: { category?: string | null; difficulty?: Difficulty | null } = {},
+  random: () => number = Math.random,
+): WordBankPick | null {
+  const candidates = WORD_BANK.filter((category) => !options.category || category.id === options.category).flatMap(
+    (category) =>
+      category.entries
+        .filter((entry) => !options.difficulty || entry.difficulty === options.difficulty)
+        .map((entry) => ({ ...entry, category: category.label })),
+  )
+
+  if (candidates.length === 0) {
+    return null
+  }
+  return candidates[Math.floor(random() * candidates.length)]
+}
+
+export function isWordBankCategory(categoryId: string) {
+  return WORD_BANK.some((category) => category.id === categoryId)
+}
+
+export function isDifficulty(value: string): value is Difficulty {
+  return Object.hasOwn(DIFFICULTY_LABELS, value)
+}
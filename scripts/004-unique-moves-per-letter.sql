@@ -0,0 +1,4 @@
+-- Evita que la misma letra se registre dos veces en una ronda,
+-- incluso si llegan dos jugadas simultáneas al servidor.
+-- (resetGame borra los moves de la sala al empezar cada ronda)
+CREATE UNIQUE INDEX IF NOT EXISTS moves_room_id_letter_key ON moves (room_id, letter);
@@ -0,0 +1,24 @@
+-- La palabra secreta sale de "rooms" para que el Realtime de rooms no la
+-- envíe al adivinador. "room_secrets" NO se añade a supabase_realtime.
+CREATE TABLE IF NOT EXISTS room_secrets (
+room_id UUID PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE,
+word TEXT NOT NULL,
+created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Patrón visible para todos: "_" por cada letra no adivinada.
+-- Al terminar la ronda el servidor guarda aquí la palabra completa.
+ALTER TABLE rooms
+ADD COLUMN masked_word TEXT;
+
+-- Migrar las palabras de las rondas en curso antes de borrar la columna
+INSERT INTO room_secrets (room_id, word)
+SELECT id, word FROM rooms WHERE word IS NOT NULL
+ON CONFLICT (room_id) DO NOTHING;
+
+UPDATE rooms
+SET masked_word = regexp_replace(word, '[A-ZÑ]', '_', 'g')
+WHERE word IS NOT NULL;
+
+ALTER TABLE rooms
+DROP COLUMN word;
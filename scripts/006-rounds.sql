@@ -0,0 +1,24 @@
+-- Resultado de cada ronda, registrado por el servidor al terminarla.
+-- "result" es desde el punto de vista del adivinador: 'won' o 'lost'.
+CREATE TABLE IF NOT EXISTS rounds (
+id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+word TEXT NOT NULL,
+setter_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+guesser_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+misses INTEGER NOT NULL DEFAULT 0,
+result TEXT NOT NULL, -- 'won', 'lost'
+started_at TIMESTAMP WITH TIME ZONE,
+finished_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+duration_seconds INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS rounds_room_id_idx ON rounds (room_id, finished_at);
+
+-- rooms.state ahora también puede ser 'won' o 'lost' mientras la ronda
+-- terminada sigue en pantalla, hasta que alguien pulse "Volver a Jugar".
+ALTER TABLE rooms
+ADD COLUMN round_started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN last_round_id UUID REFERENCES rounds(id) ON DELETE SET NULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE rounds;
@@ -0,0 +1,10 @@
+-- Formato de partida elegido por el anfitrión al crear la sala:
+-- 'endless' (rondas sueltas), 'best_of' (al mejor de N rondas) o 'first_to' (primero en N puntos)
+ALTER TABLE rooms
+ADD COLUMN match_format TEXT DEFAULT 'endless' NOT NULL,
+ADD COLUMN match_target INTEGER,
+ADD COLUMN match_number INTEGER DEFAULT 1 NOT NULL, -- se incrementa con cada revancha
+ADD COLUMN match_winner_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE rounds
+ADD COLUMN match_number INTEGER DEFAULT 1 NOT NULL;
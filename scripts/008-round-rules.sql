@@ -0,0 +1,15 @@
+-- Reglas de ronda configurables por sala
+ALTER TABLE rooms
+ADD COLUMN max_misses INTEGER DEFAULT 6 NOT NULL CHECK (max_misses BETWEEN 3 AND 12),
+ADD COLUMN timer_mode TEXT DEFAULT 'none' NOT NULL, -- 'none', 'round', 'guess'
+ADD COLUMN timer_seconds INTEGER,
+ADD COLUMN count_enye BOOLEAN DEFAULT TRUE NOT NULL, -- si es FALSE, la Ñ cuenta como N
+ADD COLUMN count_accents BOOLEAN DEFAULT FALSE NOT NULL, -- si es FALSE, Á cuenta como A
+-- Plazos calculados por el servidor según timer_mode
+ADD COLUMN round_deadline TIMESTAMP WITH TIME ZONE,
+ADD COLUMN guess_deadline TIMESTAMP WITH TIME ZONE;
+
+-- Jugadas que no son una letra: 'timeout' cuando se agota el tiempo de la letra
+ALTER TABLE moves
+ADD COLUMN kind TEXT DEFAULT 'letter' NOT NULL, -- 'letter', 'timeout'
+ALTER COLUMN letter DROP NOT NULL;
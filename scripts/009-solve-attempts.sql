@@ -0,0 +1,10 @@
+-- Intentos de resolver la palabra completa
+ALTER TABLE rooms
+ADD COLUMN solve_penalty INTEGER DEFAULT 2 NOT NULL CHECK (solve_penalty BETWEEN 1 AND 6);
+
+ALTER TABLE moves
+ADD COLUMN guess TEXT, -- palabra o frase propuesta en las jugadas 'solve'
+ADD COLUMN misses INTEGER DEFAULT 0 NOT NULL; -- fallos que cuesta la jugada
+
+-- Hasta ahora cada jugada incorrecta costaba exactamente un fallo
+UPDATE moves SET misses = 1 WHERE NOT correct;
@@ -0,0 +1,14 @@
+-- Categoría y pistas opcionales que añade quien establece la palabra.
+-- Las pistas se guardan con el secreto y solo se publican al revelarse.
+ALTER TABLE room_secrets
+ADD COLUMN hints TEXT[] DEFAULT '{}' NOT NULL;
+
+ALTER TABLE rooms
+ADD COLUMN category TEXT,
+ADD COLUMN hint_count INTEGER DEFAULT 0 NOT NULL, -- pistas disponibles en la ronda
+ADD COLUMN revealed_hints TEXT[] DEFAULT '{}' NOT NULL; -- pistas ya reveladas, visibles para ambos
+
+ALTER TABLE rounds
+ADD COLUMN category TEXT,
+ADD COLUMN hints TEXT[] DEFAULT '{}' NOT NULL,
+ADD COLUMN hints_used INTEGER DEFAULT 0 NOT NULL;
@@ -0,0 +1,4 @@
+-- Origen de la palabra de la ronda: 'player' la escribió quien la establece,
+-- 'bank' la eligió el servidor del banco de palabras y nadie en la sala la conoce.
+ALTER TABLE rooms
+ADD COLUMN word_source TEXT DEFAULT 'player' NOT NULL; -- 'player', 'bank'
@@ -0,0 +1,37 @@
+-- Salas de 2 a 8 jugadores. host_user_id sigue siendo el anfitrión y
+-- guest_user_id el primer invitado, para las salas y pantallas existentes;
+-- la lista completa de jugadores vive en room_players.
+CREATE TABLE IF NOT EXISTS room_players (
+room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+seat INTEGER NOT NULL, -- orden de llegada, marca el orden de los turnos
+joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+PRIMARY KEY (room_id, user_id)
+);
+
+-- Dos personas que entran a la vez no pueden quedarse con el mismo asiento
+CREATE UNIQUE INDEX IF NOT EXISTS room_players_seat_idx ON room_players (room_id, seat);
+
+-- Quién pone la palabra ya no se deduce de current_turn_user_id, que ahora
+-- es solo el jugador al que le toca adivinar la siguiente letra.
+ALTER TABLE rooms
+ADD COLUMN max_players INTEGER DEFAULT 2 NOT NULL,
+ADD COLUMN word_setter_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Migrar las salas existentes
+INSERT INTO room_players (room_id, user_id, seat)
+SELECT id, host_user_id, 0 FROM rooms WHERE host_user_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO room_players (room_id, user_id, seat)
+SELECT id, guest_user_id, 1 FROM rooms WHERE guest_user_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+UPDATE rooms
+SET word_setter_user_id = CASE WHEN current_turn_user_id = host_user_id THEN guest_user_id ELSE host_user_id END
+WHERE guest_user_id IS NOT NULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE room_players;
+
+-- Para que los eventos DELETE lleguen con room_id y el filtro por sala funcione
+ALTER TABLE room_players REPLICA IDENTITY FULL;
@@ -0,0 +1,17 @@
+-- Espectadores: ven la palabra enmascarada, el dibujo, las jugadas y el chat,
+-- pero no juegan. No ocupan plaza en room_players.
+CREATE TABLE IF NOT EXISTS room_spectators (
+room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+PRIMARY KEY (room_id, user_id)
+);
+
+-- Si es false, los espectadores leen el chat pero no pueden escribir
+ALTER TABLE rooms
+ADD COLUMN spectators_can_chat BOOLEAN DEFAULT TRUE NOT NULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE room_spectators;
+
+-- Para que los eventos DELETE lleguen con room_id y el filtro por sala funcione
+ALTER TABLE room_spectators REPLICA IDENTITY FULL;
@@ -0,0 +1,30 @@
+-- Modo por equipos (match_format = 'team_rounds'): dos equipos de 2 a 4 jugadores.
+-- Cada equipo pone la palabra al otro y gana el que acumula menos fallos
+-- tras match_target rondas adivinando cada uno.
+ALTER TABLE room_players
+ADD COLUMN team TEXT; -- 'a', 'b' o NULL fuera del modo por equipos
+
+ALTER TABLE rooms
+ADD COLUMN match_winner_team TEXT; -- 'a', 'b' o 'draw'
+
+ALTER TABLE rounds
+ADD COLUMN guessing_team TEXT;
+
+-- Chat privado de cada equipo. Va en su propia tabla para que el Realtime del
+-- chat de la sala nunca reciba estos mensajes; team_channel permite filtrar
+-- la suscripción por sala y equipo a la vez.
+CREATE TABLE IF NOT EXISTS team_messages (
+id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+team TEXT NOT NULL,
+team_channel TEXT GENERATED ALWAYS AS (room_id::text || ':' || team) STORED,
+user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+username TEXT,
+message TEXT NOT NULL,
+message_type TEXT DEFAULT 'text' NOT NULL,
+created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS team_messages_channel_idx ON team_messages (team_channel, created_at);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE team_messages;
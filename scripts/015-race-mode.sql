@@ -0,0 +1,37 @@
+-- Modo carrera: todos adivinan a la vez la misma palabra sorpresa, cada uno en
+-- su propio tablero, y gana la ronda el primero en resolverla.
+ALTER TABLE rooms
+ADD COLUMN round_mode TEXT DEFAULT 'turns' NOT NULL; -- 'turns' o 'race'
+
+-- Jugadas de cada tablero. No se publican en Realtime: las letras de un jugador
+-- darían pistas a sus rivales.
+CREATE TABLE IF NOT EXISTS race_moves (
+id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+letter TEXT,
+guess TEXT,
+correct BOOLEAN NOT NULL,
+kind TEXT DEFAULT 'letter' NOT NULL,
+misses INTEGER DEFAULT 0 NOT NULL,
+created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS race_moves_room_user_letter_key ON race_moves (room_id, user_id, letter);
+
+-- Lo único que ven los rivales: cuántas letras lleva cada uno y sus fallos
+CREATE TABLE IF NOT EXISTS race_progress (
+room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+revealed_letters INTEGER DEFAULT 0 NOT NULL,
+total_letters INTEGER NOT NULL,
+misses INTEGER DEFAULT 0 NOT NULL,
+status TEXT DEFAULT 'playing' NOT NULL, -- 'playing', 'won' o 'lost'
+updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+PRIMARY KEY (room_id, user_id)
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE race_progress;
+
+-- Para que los eventos DELETE lleguen con room_id y el filtro por sala funcione
+ALTER TABLE race_progress REPLICA IDENTITY FULL;
@@ -0,0 +1,16 @@
+-- Cuentas con Supabase Auth (enlace mágico por email o invitado anónimo).
+-- Cada fila de users pasa a ser el perfil de un usuario de auth.users, con el mismo id.
+-- Requiere activar "Anonymous sign-ins" en Authentication > Providers.
+
+-- Los usuarios antiguos, creados solo con un nombre, no tienen cuenta: se les
+-- añade un sufijo para que sus nombres queden libres y alguien los pueda reclamar.
+UPDATE users
+SET username = username || '#' || left(id::text, 8)
+WHERE id NOT IN (SELECT id FROM auth.users);
+
+-- NOT VALID: las filas antiguas se conservan para el historial de rondas
+ALTER TABLE users
+ADD CONSTRAINT users_id_auth_fkey FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+
+-- Un nombre pertenece a una sola cuenta, sin distinguir mayúsculas
+CREATE UNIQUE INDEX IF NOT EXISTS users_username_lower_key ON users (lower(username));
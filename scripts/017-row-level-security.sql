@@ -0,0 +1,150 @@
+-- Seguridad a nivel de fila. El navegador consulta y se suscribe con la clave
+-- anónima y la sesión de Supabase Auth del usuario: solo ve las filas de las
+-- salas en las que juega o que mira como espectador.
+-- Las server actions que cambian la partida usan la clave de servicio
+-- (SUPABASE_SERVICE_ROLE_KEY), que se salta RLS, después de comprobar quién
+-- hace la petición. Las lecturas en nombre del usuario usan su sesión.
+
+-- SECURITY DEFINER: las políticas de room_players consultan room_players sin
+-- entrar en recursión
+CREATE OR REPLACE FUNCTION is_room_player(target_room_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT EXISTS (SELECT 1 FROM room_players WHERE room_id = target_room_id AND user_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION is_room_member(target_room_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT is_room_player(target_room_id)
+OR EXISTS (SELECT 1 FROM room_spectators WHERE room_id = target_room_id AND user_id = auth.uid());
+$$;
+
+-- Los jugadores siempre pueden escribir; los espectadores, si la sala lo permite
+CREATE OR REPLACE FUNCTION can_chat(target_room_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT is_room_player(target_room_id)
+OR (
+is_room_member(target_room_id)
+AND EXISTS (SELECT 1 FROM rooms WHERE id = target_room_id AND spectators_can_chat)
+);
+$$;
+
+CREATE OR REPLACE FUNCTION is_team_member(target_room_id UUID, target_team TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT EXISTS (
+SELECT 1 FROM room_players
+WHERE room_id = target_room_id AND user_id = auth.uid() AND team = target_team
+);
+$$;
+
+-- Si target_user_id juega en alguna sala de la que forma parte el usuario actual
+CREATE OR REPLACE FUNCTION is_room_mate(target_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT EXISTS (
+SELECT 1 FROM room_players
+WHERE user_id = target_user_id AND is_room_member(room_id)
+);
+$$;
+
+-- Nombre de la cuenta actual, para que nadie firme mensajes con otro nombre
+CREATE OR REPLACE FUNCTION current_username()
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT username FROM users WHERE id = auth.uid();
+$$;
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_spectators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moves ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE typing_indicators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_moves ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_progress ENABLE ROW LEVEL SECURITY;
+
+-- room_secrets no tiene políticas: la palabra secreta solo la lee el servidor,
+-- que se la envía a quien la puso (o a su equipo) desde getRoomDetails.
+
+-- Los nombres solo se ven entre quienes comparten sala
+CREATE POLICY "users_select_room_mates" ON users
+FOR SELECT TO authenticated
+USING (id = auth.uid() OR is_room_mate(id));
+
+CREATE POLICY "rooms_select_members" ON rooms
+FOR SELECT TO authenticated
+USING (is_room_member(id));
+
+CREATE POLICY "room_players_select_members" ON room_players
+FOR SELECT TO authenticated
+USING (is_room_member(room_id));
+
+CREATE POLICY "room_spectators_select_members" ON room_spectators
+FOR SELECT TO authenticated
+USING (is_room_member(room_id));
+
+CREATE POLICY "rounds_select_members" ON rounds
+FOR SELECT TO authenticated
+USING (is_room_member(room_id));
+
+-- Las jugadas no se insertan desde el navegador: el servidor decide si la letra
+-- es correcta comparándola con la palabra secreta.
+CREATE POLICY "moves_select_members" ON moves
+FOR SELECT TO authenticated
+USING (is_room_member(room_id));
+
+CREATE POLICY "messages_select_members" ON messages
+FOR SELECT TO authenticated
+USING (is_room_member(room_id));
+
+CREATE POLICY "messages_insert_own" ON messages
+FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid() AND username = current_username() AND can_chat(room_id));
+
+-- El chat de equipo solo lo leen y escriben los miembros de ese equipo
+CREATE POLICY "team_messages_select_team" ON team_messages
+FOR SELECT TO authenticated
+USING (is_team_member(room_id, team));
+
+CREATE POLICY "team_messages_insert_own" ON team_messages
+FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid() AND username = current_username() AND is_team_member(room_id, team));
+
+CREATE POLICY "typing_indicators_select_members" ON typing_indicators
+FOR SELECT TO authenticated
+USING (is_room_member(room_id));
+
+CREATE POLICY "typing_indicators_insert_own" ON typing_indicators
+FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid() AND username = current_username() AND can_chat(room_id));
+
+CREATE POLICY "typing_indicators_update_own" ON typing_indicators
+FOR UPDATE TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND username = current_username() AND can_chat(room_id));
+
+CREATE POLICY "typing_indicators_delete_own" ON typing_indicators
+FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+-- En el modo carrera cada jugador ve solo sus letras; del resto, el progreso
+CREATE POLICY "race_moves_select_own" ON race_moves
+FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "race_progress_select_members" ON race_progress
+FOR SELECT TO authenticated
+USING (is_room_member(room_id));
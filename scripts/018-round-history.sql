@@ -0,0 +1,10 @@
+-- Historial de rondas para los perfiles: las rondas ya no se borran con su sala
+-- y se pueden buscar por jugador.
+ALTER TABLE rounds
+DROP CONSTRAINT IF EXISTS rounds_room_id_fkey;
+
+ALTER TABLE rounds
+ADD CONSTRAINT rounds_room_id_fkey FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS rounds_guesser_user_id_idx ON rounds (guesser_user_id, finished_at);
+CREATE INDEX IF NOT EXISTS rounds_setter_user_id_idx ON rounds (setter_user_id, finished_at);
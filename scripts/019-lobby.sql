@@ -0,0 +1,37 @@
+-- Sala de espera pública: las salas públicas aparecen en la portada mientras
+-- esperan jugadores. Las de partida rápida las crea el emparejamiento automático.
+ALTER TABLE rooms
+ADD COLUMN is_public BOOLEAN DEFAULT FALSE NOT NULL,
+ADD COLUMN quick_match BOOLEAN DEFAULT FALSE NOT NULL,
+ADD COLUMN player_count INTEGER DEFAULT 1 NOT NULL;
+
+-- player_count sigue a room_players para que el Realtime de rooms avise a la
+-- portada cuando alguien entra o sale de una sala
+CREATE OR REPLACE FUNCTION sync_room_player_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+target_room_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.room_id ELSE NEW.room_id END;
+BEGIN
+UPDATE rooms
+SET player_count = (SELECT count(*) FROM room_players WHERE room_id = target_room_id)
+WHERE id = target_room_id;
+RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER room_players_sync_count
+AFTER INSERT OR DELETE ON room_players
+FOR EACH ROW EXECUTE FUNCTION sync_room_player_count();
+
+UPDATE rooms
+SET player_count = (SELECT count(*) FROM room_players WHERE room_id = rooms.id);
+
+CREATE INDEX IF NOT EXISTS rooms_open_idx ON rooms (is_public, state, created_at);
+
+-- Cualquiera, con o sin sesión, ve las salas públicas; así la portada recibe
+-- sus cambios por Realtime. La palabra secreta sigue en room_secrets.
+CREATE POLICY "rooms_select_public" ON rooms
+FOR SELECT TO anon, authenticated
+USING (is_public);
@@ -0,0 +1,28 @@
+-- Código corto de cada sala: 6 caracteres sin letras ni números ambiguos.
+-- El servidor lo genera al crear la sala y reintenta si ya existe.
+ALTER TABLE rooms
+ADD COLUMN code TEXT;
+
+-- Códigos para las salas existentes; si dos coinciden, se vuelve a sortear
+DO $$
+DECLARE
+room_record RECORD;
+new_code TEXT;
+BEGIN
+FOR room_record IN SELECT id FROM rooms WHERE code IS NULL LOOP
+LOOP
+new_code := (
+SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 1 + floor(random() * 31)::int, 1), '')
+FROM generate_series(1, 6)
+);
+EXIT WHEN NOT EXISTS (SELECT 1 FROM rooms WHERE code = new_code);
+END LOOP;
+UPDATE rooms SET code = new_code WHERE id = room_record.id;
+END LOOP;
+END;
+$$;
+
+ALTER TABLE rooms
+ALTER COLUMN code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS rooms_code_key ON rooms (code);
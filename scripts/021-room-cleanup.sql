@@ -0,0 +1,101 @@
+-- Limpieza de salas abandonadas. Las salas sin actividad durante idle_minutes se
+-- cierran (state = 'finished'); los clientes que sigan conectados reciben el
+-- cambio por el Realtime de rooms, como cuando el anfitrión cierra la sala.
+ALTER TABLE rooms
+ADD COLUMN last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+ADD COLUMN closed_reason TEXT; -- 'host_left', 'expired'
+
+-- Cada cambio de la sala (turnos, palabras, jugadas) cuenta como actividad
+CREATE OR REPLACE FUNCTION touch_room_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+NEW.last_activity_at := NOW();
+RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rooms_touch_activity
+BEFORE UPDATE ON rooms
+FOR EACH ROW EXECUTE FUNCTION touch_room_activity();
+
+-- Los mensajes del chat no tocan rooms, así que también se miran aquí
+CREATE OR REPLACE FUNCTION cleanup_idle_rooms(idle_minutes INTEGER DEFAULT 30, retention_days INTEGER DEFAULT 7)
+RETURNS TABLE (closed_rooms INTEGER, purged_moves INTEGER, purged_messages INTEGER, purged_typing INTEGER)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+idle_since TIMESTAMP WITH TIME ZONE := NOW() - make_interval(mins => idle_minutes);
+purge_before TIMESTAMP WITH TIME ZONE := NOW() - make_interval(days => retention_days);
+BEGIN
+WITH closed AS (
+UPDATE rooms
+SET state = 'finished',
+closed_reason = 'expired',
+masked_word = NULL,
+current_turn_user_id = NULL,
+round_deadline = NULL,
+guess_deadline = NULL
+WHERE state <> 'finished'
+AND last_activity_at < idle_since
+AND NOT EXISTS (SELECT 1 FROM messages WHERE messages.room_id = rooms.id AND messages.created_at >= idle_since)
+AND NOT EXISTS (SELECT 1 FROM team_messages WHERE team_messages.room_id = rooms.id AND team_messages.created_at >= idle_since)
+AND NOT EXISTS (SELECT 1 FROM race_moves WHERE race_moves.room_id = rooms.id AND race_moves.created_at >= idle_since)
+RETURNING id
+),
+secrets AS (
+DELETE FROM room_secrets WHERE room_id IN (SELECT id FROM closed)
+)
+SELECT count(*)::INTEGER INTO closed_rooms FROM closed;
+
+-- Jugadas y chat de salas cerradas, y de cualquier sala pasados retention_days.
+-- El historial de rondas (rounds) se conserva para perfiles y clasificaciones.
+WITH deleted AS (
+DELETE FROM moves
+WHERE created_at < purge_before
+OR room_id IN (SELECT id FROM rooms WHERE state = 'finished')
+RETURNING 1
+)
+SELECT count(*)::INTEGER INTO purged_moves FROM deleted;
+
+DELETE FROM race_moves
+WHERE created_at < purge_before
+OR room_id IN (SELECT id FROM rooms WHERE state = 'finished');
+
+DELETE FROM race_progress
+WHERE room_id IN (SELECT id FROM rooms WHERE state = 'finished');
+
+WITH deleted AS (
+DELETE FROM messages
+WHERE created_at < purge_before
+OR room_id IN (SELECT id FROM rooms WHERE state = 'finished')
+RETURNING 1
+)
+SELECT count(*)::INTEGER INTO purged_messages FROM deleted;
+
+DELETE FROM team_messages
+WHERE created_at < purge_before
+OR room_id IN (SELECT id FROM rooms WHERE state = 'finished');
+
+-- Un indicador de "escribiendo" de hace más de un minuto es de una pestaña cerrada
+WITH deleted AS (
+DELETE FROM typing_indicators
+WHERE updated_at < NOW() - INTERVAL '1 minute'
+OR room_id IN (SELECT id FROM rooms WHERE state = 'finished')
+RETURNING 1
+)
+SELECT count(*)::INTEGER INTO purged_typing FROM deleted;
+
+RETURN NEXT;
+END;
+$$;
+
+-- Solo el servidor (clave de servicio) o el programador de tareas pueden lanzarla
+REVOKE EXECUTE ON FUNCTION cleanup_idle_rooms(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Cada 10 minutos con pg_cron (Database > Extensions en Supabase). Para lanzarla a
+-- mano: SELECT * FROM cleanup_idle_rooms();
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('cleanup-idle-rooms', '*/10 * * * *', $$SELECT cleanup_idle_rooms()$$);
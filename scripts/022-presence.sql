@@ -0,0 +1,16 @@
+-- Último latido de cada jugador en su sala. Lo escribe el servidor cada pocos
+-- segundos mientras la pestaña está abierta; NO va a supabase_realtime (los
+-- indicadores en línea salen de Realtime presence).
+CREATE TABLE IF NOT EXISTS room_presence (
+room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+PRIMARY KEY (room_id, user_id)
+);
+
+-- Sin políticas: solo lo usa el servidor
+ALTER TABLE room_presence ENABLE ROW LEVEL SECURITY;
+
+-- Regla de abandono de la sala
+ALTER TABLE rooms
+ADD COLUMN absence_rule TEXT DEFAULT 'none' NOT NULL; -- 'none', 'forfeit'
@@ -0,0 +1,7 @@
+-- Cada pista se paga una sola vez: la jugada de penalización guarda el número de la
+-- pista y el índice único rechaza la segunda petición si llegan dos a la vez.
+-- (como con las letras, las jugadas sin pista dejan la columna en NULL)
+ALTER TABLE moves
+ADD COLUMN hint_number INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS moves_room_id_hint_number_key ON moves (room_id, hint_number);
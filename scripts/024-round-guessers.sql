@@ -0,0 +1,14 @@
+-- Las rondas del modo carrera no tienen un único adivinador: solo se guarda al
+-- ganador. Se marcan para dejarlas fuera de las estadísticas y clasificaciones.
+-- Las carreras jugadas antes de este script no se pueden distinguir y quedan como 'turns'.
+ALTER TABLE rounds
+ADD COLUMN round_mode TEXT DEFAULT 'turns' NOT NULL; -- 'turns' o 'race'
+
+-- Lo mismo pasa con varios adivinadores (equipos o salas de más de dos): solo se guarda
+-- a quien hizo la última jugada, así que esas rondas tampoco cuentan por adivinador.
+ALTER TABLE rounds
+ADD COLUMN guesser_count INTEGER DEFAULT 1 NOT NULL;
+
+-- En las rondas por equipos siempre adivinan al menos dos. Las salas de más de dos
+-- jugadores anteriores a este script no se pueden distinguir y quedan con 1.
+UPDATE rounds SET guesser_count = 2 WHERE guessing_team IS NOT NULL;
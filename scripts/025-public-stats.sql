@@ -0,0 +1,126 @@
+-- Perfiles y clasificaciones públicos. Con RLS, cada usuario solo ve las rondas y
+-- los nombres de sus salas; estas funciones (SECURITY DEFINER) exponen justo lo que
+-- se publica, y la clasificación se calcula y se pagina aquí: PostgREST corta cada
+-- respuesta en 1000 filas y el historial completo no cabe.
+
+-- Nombre y fecha de alta de un jugador
+CREATE OR REPLACE FUNCTION get_player_profile(target_username TEXT)
+RETURNS TABLE (id UUID, username TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT u.id, u.username, u.created_at FROM users u WHERE u.username = target_username;
+$$;
+
+-- Nombres de los rivales que aparecen en un perfil
+CREATE OR REPLACE FUNCTION get_usernames(user_ids UUID[])
+RETURNS TABLE (id UUID, username TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT u.id, u.username FROM users u WHERE u.id = ANY(user_ids);
+$$;
+
+-- Rondas de un jugador, como adivinador o como quien puso la palabra.
+-- Se leen por páginas con .range(). En vez del id de la sala, que basta para entrar
+-- en una sala privada, cada partida se identifica con una clave opaca (match_key).
+CREATE OR REPLACE FUNCTION get_player_rounds(target_user_id UUID)
+RETURNS TABLE (
+match_key TEXT,
+word TEXT,
+setter_user_id UUID,
+guesser_user_id UUID,
+misses INTEGER,
+result TEXT,
+finished_at TIMESTAMP WITH TIME ZONE,
+duration_seconds INTEGER,
+match_number INTEGER,
+round_mode TEXT,
+guesser_count INTEGER
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+SELECT md5(COALESCE(r.room_id::TEXT, '') || ':' || r.match_number), r.word, r.setter_user_id, r.guesser_user_id, r.misses, r.result, r.finished_at,
+r.duration_seconds, r.match_number, r.round_mode, r.guesser_count
+FROM rounds r
+WHERE r.setter_user_id = target_user_id OR r.guesser_user_id = target_user_id
+ORDER BY r.finished_at, r.id;
+$$;
+
+-- Clasificación ordenada por métrica ('wins', 'win_rate' o 'average_misses'), una fila por
+-- adivinador. Solo cuentan las rondas por turnos con un único adivinador; el porcentaje
+-- y la media de fallos piden al menos min_rounds rondas. Con played_with_only, solo
+-- quienes han compartido sala con el usuario actual. Se pagina con .range()
+CREATE OR REPLACE FUNCTION get_leaderboard(
+period_start TIMESTAMP WITH TIME ZONE,
+metric TEXT,
+played_with_only BOOLEAN,
+min_rounds INTEGER
+)
+RETURNS TABLE (
+user_id UUID,
+username TEXT,
+rank BIGINT,
+rounds_played BIGINT,
+rounds_won BIGINT,
+win_rate DOUBLE PRECISION,
+average_misses DOUBLE PRECISION
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+WITH played_with AS (
+SELECT mate.id
+FROM rounds own
+JOIN rounds shared ON shared.room_id = own.room_id
+CROSS JOIN LATERAL (VALUES (shared.setter_user_id), (shared.guesser_user_id)) AS mate(id)
+WHERE own.setter_user_id = auth.uid() OR own.guesser_user_id = auth.uid()
+),
+totals AS (
+SELECT
+r.guesser_user_id AS user_id,
+COUNT(*) AS rounds_played,
+COUNT(*) FILTER (WHERE r.result = 'won') AS rounds_won,
+SUM(r.misses) AS misses
+FROM rounds r
+WHERE r.guesser_user_id IS NOT NULL
+AND r.round_mode = 'turns'
+AND r.guesser_count = 1
+AND (period_start IS NULL OR r.finished_at >= period_start)
+AND (NOT played_with_only OR r.guesser_user_id IN (SELECT id FROM played_with))
+GROUP BY r.guesser_user_id
+),
+entries AS (
+SELECT
+t.user_id,
+t.rounds_played,
+t.rounds_won,
+t.rounds_won::DOUBLE PRECISION / t.rounds_played AS win_rate,
+t.misses::DOUBLE PRECISION / t.rounds_played AS average_misses
+FROM totals t
+WHERE metric = 'wins' OR t.rounds_played >= min_rounds
+)
+SELECT
+e.user_id,
+u.username,
+-- Desempate: más victorias y, después, más rondas jugadas
+ROW_NUMBER() OVER (
+ORDER BY
+CASE WHEN metric = 'win_rate' THEN e.win_rate END DESC,
+CASE WHEN metric = 'average_misses' THEN e.average_misses END ASC,
+e.rounds_won DESC,
+e.rounds_played DESC,
+e.user_id
+) AS rank,
+e.rounds_played,
+e.rounds_won,
+e.win_rate,
+e.average_misses
+FROM entries e
+JOIN users u ON u.id = e.user_id
+ORDER BY rank;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_player_profile(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_usernames(UUID[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_player_rounds(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_leaderboard(TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, INTEGER) TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS rounds_finished_at_idx ON rounds (finished_at) WHERE guesser_user_id IS NOT NULL;
@@ -0,0 +1,5 @@
+-- La portada lee las salas públicas con la sesión del visitante: el nombre de
+-- quien la creó tiene que verse aunque no comparta sala con él.
+CREATE POLICY "users_select_public_hosts" ON users
+FOR SELECT TO anon, authenticated
+USING (EXISTS (SELECT 1 FROM rooms WHERE rooms.host_user_id = users.id AND rooms.is_public));